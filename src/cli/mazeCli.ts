@@ -0,0 +1,214 @@
+// Batch maze generation without the browser game, e.g. for level packs and for
+// checking that generator changes keep the same seeds producing the same mazes.
+//
+//   npm run maze -- --count 10 --size 41x41 --algorithm prim --seed 1 --format stats
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { MAZE_ALGORITHMS, MazeAlgorithmId } from '../utils/mazeAlgorithms';
+import { analyzeLayout, MazeStats } from '../utils/mazeAnalyzer';
+import { layoutToAscii } from '../utils/mazeAscii';
+import { ExitPlacement, MazeGenerator, MazeLayout } from '../utils/mazeGenerator';
+import { createLevel, serializeLevel } from '../utils/mazeLevel';
+import { createRandomSeed, createSeededRandom, parseSeed } from '../utils/random';
+
+type OutputFormat = 'ascii' | 'json' | 'stats';
+
+// Same retry budget as the game, so with matching options a seed gives the
+// maze the game builds
+const MAX_LAYOUT_ATTEMPTS = 5;
+
+const USAGE = `Usage: npm run maze -- [options]
+
+Options:
+  -n, --count <n>          Mazes to generate (default 1)
+  -s, --size <WxH>         Grid size in cells (default 21x21)
+  -a, --algorithm <id>     ${Object.keys(MAZE_ALGORITHMS).join(', ')} (default backtracker)
+      --seed <seed>        Seed of the first maze, number or text; the others
+                           count up from it (default random)
+  -f, --format <format>    ascii, json (the level format) or stats (default ascii)
+  -o, --out <dir>          Write one file per maze instead of printing
+                           (ascii and json)
+      --exit <placement>   corner or farthest (default corner)
+      --braid <0..1>       Share of dead ends turned into loops (default 0)
+      --weave <0..1>       Share of dead ends bridged over corridors (default 0)
+      --floors <n>         Stacked floors (default 1)
+      --checkpoints <n>    Checkpoints in total, shared out over the floors
+                           (default 0)
+  -h, --help               Show this help`;
+
+interface CliOptions {
+  count: number;
+  width: number;
+  height: number;
+  algorithm: MazeAlgorithmId;
+  seed: number;
+  format: OutputFormat;
+  out: string | null;
+  exitPlacement: ExitPlacement;
+  braid: number;
+  weave: number;
+  floors: number;
+  checkpoints: number;
+}
+
+interface GeneratedMaze {
+  seed: number;
+  layout: MazeLayout;
+  stats: MazeStats;
+}
+
+function parseOptions(args: string[]): CliOptions | null {
+  const { values } = parseArgs({
+    args,
+    options: {
+      count: { type: 'string', short: 'n', default: '1' },
+      size: { type: 'string', short: 's', default: '21x21' },
+      algorithm: { type: 'string', short: 'a', default: 'backtracker' },
+      seed: { type: 'string' },
+      format: { type: 'string', short: 'f', default: 'ascii' },
+      out: { type: 'string', short: 'o' },
+      exit: { type: 'string', default: 'corner' },
+      braid: { type: 'string', default: '0' },
+      weave: { type: 'string', default: '0' },
+      floors: { type: 'string', default: '1' },
+      checkpoints: { type: 'string', default: '0' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) return null;
+
+  const integer = (name: string, value: string, min: number): number => {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < min) throw new Error(`--${name} must be a whole number of at least ${min}`);
+    return number;
+  };
+  const ratio = (name: string, value: string): number => {
+    const number = Number(value);
+    if (!(number >= 0 && number <= 1)) throw new Error(`--${name} must be between 0 and 1`);
+    return number;
+  };
+
+  const size = /^(\d+)x(\d+)$/.exec(values.size);
+  if (!size) throw new Error('--size must look like 21x21');
+  if (!(values.algorithm in MAZE_ALGORITHMS)) throw new Error(`Unknown algorithm '${values.algorithm}'`);
+  if (!['ascii', 'json', 'stats'].includes(values.format)) throw new Error(`Unknown format '${values.format}'`);
+  if (!['corner', 'farthest'].includes(values.exit)) throw new Error(`Unknown exit placement '${values.exit}'`);
+
+  return {
+    count: integer('count', values.count, 1),
+    width: integer('size', size[1], 5),
+    height: integer('size', size[2], 5),
+    algorithm: values.algorithm as MazeAlgorithmId,
+    seed: parseSeed(values.seed) ?? createRandomSeed(),
+    format: values.format as OutputFormat,
+    out: values.out ?? null,
+    exitPlacement: values.exit as ExitPlacement,
+    braid: ratio('braid', values.braid),
+    weave: ratio('weave', values.weave),
+    floors: integer('floors', values.floors, 1),
+    checkpoints: integer('checkpoints', values.checkpoints, 0)
+  };
+}
+
+// Like the game: degenerate layouts are rejected and the seeded stream retried
+function generateMaze(options: CliOptions, seed: number): GeneratedMaze {
+  const generator = new MazeGenerator(options.width, options.height, {
+    random: createSeededRandom(seed),
+    algorithm: options.algorithm,
+    exitPlacement: options.exitPlacement,
+    braid: options.braid,
+    weave: options.weave,
+    floors: options.floors,
+    checkpoints: options.checkpoints
+  });
+
+  let layout = generator.generateLayout();
+  let { analyzer, stats } = analyzeLayout(layout);
+  for (let attempt = 1; attempt < MAX_LAYOUT_ATTEMPTS && analyzer.isDegenerate(stats); attempt++) {
+    layout = generator.generateLayout();
+    ({ analyzer, stats } = analyzeLayout(layout));
+  }
+
+  return { seed, layout, stats };
+}
+
+function toLevelJson(options: CliOptions, maze: GeneratedMaze, pretty: boolean): string {
+  const level = createLevel(maze.layout, {
+    seed: maze.seed,
+    algorithm: options.algorithm,
+    enemies: [],
+    environment: { timeOfDay: 'day', weather: 'sunny' }
+  });
+  return serializeLevel(level, pretty);
+}
+
+const STATS_COLUMNS = ['seed', 'solution', 'reachable', 'dead-ends', 'junctions', 'decisions', 'corridor', 'difficulty', 'tier'];
+
+function statsRow({ seed, stats }: GeneratedMaze): string {
+  return [
+    seed,
+    stats.solutionLength,
+    `${stats.reachableCells}/${stats.openCells}`,
+    stats.deadEnds,
+    stats.junctions,
+    stats.decisionPoints,
+    stats.averageCorridorLength.toFixed(1),
+    stats.difficulty,
+    stats.tier
+  ].join('\t');
+}
+
+function summary(mazes: GeneratedMaze[]): string {
+  const average = mazes.reduce((total, maze) => total + maze.stats.difficulty, 0) / mazes.length;
+  const tiers = new Map<string, number>();
+  mazes.forEach(({ stats }) => tiers.set(stats.tier, (tiers.get(stats.tier) ?? 0) + 1));
+  const tierCounts = [...tiers].map(([tier, count]) => `${count} ${tier}`).join(', ');
+  return `${mazes.length} ${mazes.length === 1 ? 'maze' : 'mazes'}, average difficulty ${average.toFixed(1)} (${tierCounts})`;
+}
+
+function run(args: string[]): number {
+  let options: CliOptions | null;
+  try {
+    options = parseOptions(args);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const mazes: GeneratedMaze[] = [];
+  const write = (line: string) => process.stdout.write(`${line}\n`);
+
+  if (options.out && options.format !== 'stats') mkdirSync(options.out, { recursive: true });
+  if (options.format === 'stats') write(STATS_COLUMNS.join('\t'));
+
+  for (let index = 0; index < options.count; index++) {
+    const maze = generateMaze(options, (options.seed + index) >>> 0);
+    mazes.push(maze);
+
+    const { difficulty, tier } = maze.stats;
+    if (options.format === 'stats') {
+      write(statsRow(maze));
+    } else if (options.out) {
+      const file = join(options.out, `maze-${maze.seed}.${options.format === 'json' ? 'json' : 'txt'}`);
+      writeFileSync(file, options.format === 'json' ? `${toLevelJson(options, maze, true)}\n` : `${layoutToAscii(maze.layout)}\n`);
+      write(`${file}: difficulty ${difficulty} (${tier})`);
+    } else if (options.format === 'json') {
+      // One level per line
+      write(toLevelJson(options, maze, false));
+    } else {
+      write(`Seed ${maze.seed}: ${options.algorithm} ${options.width}x${options.height}, difficulty ${difficulty} (${tier})`);
+      write(`${layoutToAscii(maze.layout)}\n`);
+    }
+  }
+
+  // Keep stdout parseable when it carries JSON lines
+  (options.format === 'json' && !options.out ? console.error : console.log)(summary(mazes));
+  return 0;
+}
+
+process.exitCode = run(process.argv.slice(2));
@@ -0,0 +1,479 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { LevelIssue, validateLevel } from '../utils/levelValidation';
+import { MAZE_ALGORITHMS, MazeAlgorithmId } from '../utils/mazeAlgorithms';
+import { CellType, isWalkable, MazeGrid } from '../utils/mazeCells';
+import { MazeGenerator } from '../utils/mazeGenerator';
+import { createLevel, LevelEnemy, MazeLevel } from '../utils/mazeLevel';
+import { GridPosition } from '../utils/mazePaths';
+import { createRandomSeed, createSeededRandom } from '../utils/random';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+
+type EditorTool = 'wall' | 'floor' | 'start' | 'exit' | 'checkpoint' | 'enemy' | 'patrol';
+
+const EDITOR_TOOLS: Record<EditorTool, { label: string; hint: string }> = {
+  wall: { label: 'Wall', hint: 'Click or drag to build walls.' },
+  floor: { label: 'Floor', hint: 'Click or drag to clear cells.' },
+  start: { label: 'Start', hint: 'Click where the player starts.' },
+  exit: { label: 'Exit', hint: 'Click where the player has to get to.' },
+  checkpoint: { label: 'Checkpoint', hint: 'Click to add or remove a checkpoint.' },
+  enemy: { label: 'Enemy', hint: 'Click to add or remove an enemy.' },
+  patrol: { label: 'Patrol', hint: 'Click an enemy, then the cells it walks to in turn. It loops back to where it started.' }
+};
+
+type EditorSizeId = 'tiny' | 'small' | 'medium' | 'large';
+
+const EDITOR_SIZES: Record<EditorSizeId, { label: string; width: number; height: number }> = {
+  tiny: { label: 'Tiny (11x11)', width: 11, height: 11 },
+  small: { label: 'Small (21x21)', width: 21, height: 21 },
+  medium: { label: 'Medium (31x31)', width: 31, height: 31 },
+  large: { label: 'Large (41x41)', width: 41, height: 41 }
+};
+
+// Unfinished levels survive reloads and trips to the game and back
+const DRAFT_STORAGE_KEY = 'mazeEditorDraft';
+
+interface EditorDraft {
+  grid: MazeGrid;
+  enemies: LevelEnemy[];
+  // Of the generated maze the level started from, 0 for blank levels
+  seed: number;
+  algorithm: MazeAlgorithmId;
+}
+
+// The canvas is at most this wide or high
+const CANVAS_SIZE = 640;
+
+const CELL_COLORS: Partial<Record<CellType, string>> = {
+  [CellType.Wall]: '#374151',
+  [CellType.Floor]: '#f9fafb',
+  [CellType.Spawn]: '#22c55e',
+  [CellType.Exit]: '#ef4444',
+  [CellType.Checkpoint]: '#86efac',
+  [CellType.Room]: '#e5e7eb'
+};
+
+// Outer walls plus open floor, start and exit in opposite corners
+function blankGrid(width: number, height: number): MazeGrid {
+  const grid: MazeGrid = Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) =>
+      x === 0 || y === 0 || x === width - 1 || y === height - 1 ? CellType.Wall : CellType.Floor
+    )
+  );
+  grid[1][1] = CellType.Spawn;
+  grid[height - 2][width - 2] = CellType.Exit;
+  return grid;
+}
+
+function loadDraft(): EditorDraft | null {
+  try {
+    const draft = JSON.parse(localStorage.getItem(DRAFT_STORAGE_KEY) ?? 'null');
+    return draft && Array.isArray(draft.grid?.[0]) && Array.isArray(draft.enemies) ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+function findCells(grid: MazeGrid, type: CellType): GridPosition[] {
+  const cells: GridPosition[] = [];
+  grid.forEach((row, y) => row.forEach((cell, x) => {
+    if (cell === type) cells.push({ x, y, floor: 0 });
+  }));
+  return cells;
+}
+
+const samePosition = (a: GridPosition, b: GridPosition) => a.x === b.x && a.y === b.y;
+
+const MazeEditor: React.FC = () => {
+  const navigate = useNavigate();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const paintingRef = useRef(false);
+  const [draft, setDraft] = useState<EditorDraft>(() => loadDraft() ?? {
+    grid: blankGrid(EDITOR_SIZES.small.width, EDITOR_SIZES.small.height),
+    enemies: [],
+    seed: 0,
+    algorithm: 'backtracker'
+  });
+  const [tool, setTool] = useState<EditorTool>('wall');
+  const [selectedEnemy, setSelectedEnemy] = useState<number | null>(null);
+  const [sizeId, setSizeId] = useState<EditorSizeId>('small');
+  const [algorithm, setAlgorithm] = useState<MazeAlgorithmId>('backtracker');
+  const [issues, setIssues] = useState<LevelIssue[] | null>(null);
+
+  const { grid, enemies } = draft;
+  const width = grid[0].length;
+  const height = grid.length;
+  const cellSize = Math.max(8, Math.floor(CANVAS_SIZE / Math.max(width, height)));
+
+  useEffect(() => {
+    localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+  }, [draft]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const center = ({ x, y }: GridPosition) => [(x + 0.5) * cellSize, (y + 0.5) * cellSize] as const;
+
+    grid.forEach((row, y) => row.forEach((cell, x) => {
+      context.fillStyle = CELL_COLORS[cell] ?? (isWalkable(cell) ? CELL_COLORS[CellType.Floor] : CELL_COLORS[CellType.Wall]);
+      context.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+      context.strokeStyle = 'rgba(0, 0, 0, 0.08)';
+      context.strokeRect(x * cellSize, y * cellSize, cellSize, cellSize);
+    }));
+
+    context.font = `bold ${Math.floor(cellSize * 0.7)}px sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillStyle = '#ffffff';
+    findCells(grid, CellType.Spawn).forEach(cell => context.fillText('S', ...center(cell)));
+    findCells(grid, CellType.Exit).forEach(cell => context.fillText('E', ...center(cell)));
+
+    // Patrols as closed loops, the selected enemy's on top
+    const order = enemies.map((_, index) => index).sort((a, b) => Number(a === selectedEnemy) - Number(b === selectedEnemy));
+    order.forEach(index => {
+      const enemy = enemies[index];
+      const selected = index === selectedEnemy;
+      const route = [enemy, ...(enemy.patrol ?? [])];
+
+      if (route.length > 1) {
+        context.strokeStyle = selected ? '#dc2626' : '#f97316';
+        context.lineWidth = selected ? 3 : 2;
+        context.beginPath();
+        route.forEach((point, step) => {
+          const [px, py] = center(point);
+          if (step === 0) context.moveTo(px, py);
+          else context.lineTo(px, py);
+        });
+        context.closePath();
+        context.stroke();
+        context.lineWidth = 1;
+
+        context.fillStyle = context.strokeStyle;
+        route.slice(1).forEach(point => {
+          const [px, py] = center(point);
+          context.beginPath();
+          context.arc(px, py, cellSize * 0.15, 0, Math.PI * 2);
+          context.fill();
+        });
+      }
+
+      const [ex, ey] = center(enemy);
+      context.fillStyle = '#b91c1c';
+      context.beginPath();
+      context.arc(ex, ey, cellSize * 0.35, 0, Math.PI * 2);
+      context.fill();
+      if (selected) {
+        context.strokeStyle = '#111827';
+        context.lineWidth = 2;
+        context.stroke();
+        context.lineWidth = 1;
+      }
+    });
+
+    // Outline the cells the last validation complained about
+    issues?.forEach(issue => {
+      if (!issue.position) return;
+      context.strokeStyle = issue.severity === 'error' ? '#dc2626' : '#f59e0b';
+      context.lineWidth = 3;
+      context.strokeRect(issue.position.x * cellSize + 1.5, issue.position.y * cellSize + 1.5, cellSize - 3, cellSize - 3);
+      context.lineWidth = 1;
+    });
+  }, [grid, enemies, selectedEnemy, issues, cellSize]);
+
+  const updateDraft = (update: (previous: EditorDraft) => EditorDraft) => {
+    setDraft(update);
+    setIssues(null);
+  };
+
+  const setCell = (cell: GridPosition, type: CellType) => {
+    // Walls crush any enemy standing there
+    if (!isWalkable(type) && enemies.some(enemy => samePosition(enemy, cell))) setSelectedEnemy(null);
+    updateDraft(previous => {
+      const next = previous.grid.map(row => [...row]);
+      // Start and exit are unique: placing one moves it
+      if (type === CellType.Spawn || type === CellType.Exit) {
+        findCells(next, type).forEach(old => {
+          next[old.y][old.x] = CellType.Floor;
+        });
+      }
+      next[cell.y][cell.x] = type;
+      return {
+        ...previous,
+        grid: next,
+        enemies: isWalkable(type) ? previous.enemies : previous.enemies.filter(enemy => !samePosition(enemy, cell))
+      };
+    });
+  };
+
+  const applyTool = (cell: GridPosition) => {
+    // The outer walls keep the player inside the maze
+    if (cell.x <= 0 || cell.y <= 0 || cell.x >= width - 1 || cell.y >= height - 1) return;
+
+    const enemyIndex = enemies.findIndex(enemy => samePosition(enemy, cell));
+
+    switch (tool) {
+      case 'wall':
+        setCell(cell, CellType.Wall);
+        break;
+      case 'floor':
+        setCell(cell, CellType.Floor);
+        break;
+      case 'start':
+        setCell(cell, CellType.Spawn);
+        break;
+      case 'exit':
+        setCell(cell, CellType.Exit);
+        break;
+      case 'checkpoint':
+        setCell(cell, grid[cell.y][cell.x] === CellType.Checkpoint ? CellType.Floor : CellType.Checkpoint);
+        break;
+      case 'enemy':
+        if (enemyIndex >= 0) {
+          updateDraft(previous => ({ ...previous, enemies: previous.enemies.filter((_, index) => index !== enemyIndex) }));
+          setSelectedEnemy(null);
+        } else if (isWalkable(grid[cell.y][cell.x])) {
+          updateDraft(previous => ({ ...previous, enemies: [...previous.enemies, { x: cell.x, y: cell.y, floor: 0, patrol: [] }] }));
+          setSelectedEnemy(enemies.length);
+        } else {
+          toast.error("Enemies need an open cell");
+        }
+        break;
+      case 'patrol':
+        if (enemyIndex >= 0) {
+          setSelectedEnemy(enemyIndex);
+        } else if (selectedEnemy === null) {
+          toast.error("Click the enemy to give a patrol first");
+        } else if (isWalkable(grid[cell.y][cell.x])) {
+          updateDraft(previous => ({
+            ...previous,
+            enemies: previous.enemies.map((enemy, index) =>
+              index === selectedEnemy ? { ...enemy, patrol: [...(enemy.patrol ?? []), { x: cell.x, y: cell.y }] } : enemy
+            )
+          }));
+        }
+        break;
+    }
+  };
+
+  const cellFromEvent = (event: React.MouseEvent<HTMLCanvasElement>): GridPosition => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.floor((event.clientX - bounds.left) / cellSize),
+      y: Math.floor((event.clientY - bounds.top) / cellSize)
+    };
+  };
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    paintingRef.current = tool === 'wall' || tool === 'floor';
+    applyTool(cellFromEvent(event));
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!paintingRef.current) return;
+    const cell = cellFromEvent(event);
+    const target = tool === 'wall' ? CellType.Wall : CellType.Floor;
+    if (grid[cell.y]?.[cell.x] !== target) applyTool(cell);
+  };
+
+  const handleMouseUp = () => {
+    paintingRef.current = false;
+  };
+
+  const handleToolChange = (nextTool: EditorTool) => {
+    setTool(nextTool);
+    if (nextTool !== 'patrol' && nextTool !== 'enemy') setSelectedEnemy(null);
+  };
+
+  const handleClearPatrol = () => {
+    if (selectedEnemy === null) return;
+    updateDraft(previous => ({
+      ...previous,
+      enemies: previous.enemies.map((enemy, index) => (index === selectedEnemy ? { ...enemy, patrol: [] } : enemy))
+    }));
+    toast.success("Patrol cleared");
+  };
+
+  const handleNewLevel = (generated: boolean) => {
+    const { width: newWidth, height: newHeight } = EDITOR_SIZES[sizeId];
+    const seed = generated ? createRandomSeed() : 0;
+    const newGrid = generated
+      ? new MazeGenerator(newWidth, newHeight, { random: createSeededRandom(seed), algorithm }).generateLayout().grid
+      : blankGrid(newWidth, newHeight);
+
+    updateDraft(() => ({ grid: newGrid, enemies: [], seed, algorithm }));
+    setSelectedEnemy(null);
+    toast.success(generated ? `Generated a ${MAZE_ALGORITHMS[algorithm].name} maze to edit` : "Started a blank level");
+  };
+
+  // The level as the game would load it, plus everything wrong with it
+  const checkLevel = (): { level: MazeLevel | null; problems: LevelIssue[] } => {
+    const starts = findCells(grid, CellType.Spawn);
+    const exits = findCells(grid, CellType.Exit);
+    const missing: LevelIssue[] = [];
+    if (starts.length !== 1) missing.push({ severity: 'error', message: 'Place the start' });
+    if (exits.length !== 1) missing.push({ severity: 'error', message: 'Place the exit' });
+    if (missing.length > 0) return { level: null, problems: missing };
+
+    const level = createLevel(
+      {
+        grid,
+        floors: [grid],
+        connections: [],
+        start: { x: starts[0].x, y: starts[0].y },
+        exit: exits[0],
+        checkpoints: findCells(grid, CellType.Checkpoint)
+      },
+      {
+        seed: draft.seed,
+        algorithm: draft.algorithm,
+        enemies,
+        environment: { timeOfDay: 'day', weather: 'sunny' }
+      }
+    );
+    return { level, problems: validateLevel(level) };
+  };
+
+  const handleValidate = () => {
+    const { problems } = checkLevel();
+    setIssues(problems);
+    if (problems.length === 0) {
+      toast.success("The level looks good!");
+    }
+  };
+
+  const handlePlay = () => {
+    const { level, problems } = checkLevel();
+    setIssues(problems);
+    if (!level || problems.some(problem => problem.severity === 'error')) {
+      toast.error("Fix the errors before playing the level");
+      return;
+    }
+    navigate('/', { state: { level } });
+  };
+
+  const selected = selectedEnemy !== null ? enemies[selectedEnemy] : null;
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-4 flex flex-col lg:flex-row gap-4 items-start justify-center">
+      <canvas
+        ref={canvasRef}
+        width={width * cellSize}
+        height={height * cellSize}
+        className="bg-white shadow rounded cursor-crosshair"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+      />
+
+      <div className="bg-white p-4 rounded-lg shadow w-full lg:w-80 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Level Editor</h2>
+          <Link to="/" className="text-sm text-blue-600 hover:underline">
+            Back to the game
+          </Link>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Tool:</label>
+          <div className="grid grid-cols-4 gap-1">
+            {(Object.keys(EDITOR_TOOLS) as EditorTool[]).map(id => (
+              <button
+                key={id}
+                onClick={() => handleToolChange(id)}
+                className={`px-2 py-1 rounded text-sm font-semibold ${tool === id ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}`}
+              >
+                {EDITOR_TOOLS[id].label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">{EDITOR_TOOLS[tool].hint}</p>
+          {selected && (
+            <div className="mt-2 flex items-center justify-between text-sm">
+              <span>
+                Enemy at ({selected.x}, {selected.y}): {selected.patrol?.length ?? 0} waypoints
+              </span>
+              <button onClick={handleClearPatrol} className="text-blue-600 hover:underline">
+                Clear patrol
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">New Level:</label>
+          <div className="space-y-2">
+            <Select value={sizeId} onValueChange={(id: EditorSizeId) => setSizeId(id)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EDITOR_SIZES) as EditorSizeId[]).map(id => (
+                  <SelectItem key={id} value={id}>
+                    {EDITOR_SIZES[id].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={algorithm} onValueChange={(id: MazeAlgorithmId) => setAlgorithm(id)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(MAZE_ALGORITHMS).map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleNewLevel(false)}
+                className="flex-1 bg-gray-200 hover:bg-gray-300 px-3 py-2 rounded-lg font-semibold text-sm"
+              >
+                Blank
+              </button>
+              <button
+                onClick={() => handleNewLevel(true)}
+                className="flex-1 bg-gray-200 hover:bg-gray-300 px-3 py-2 rounded-lg font-semibold text-sm"
+              >
+                Generate
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {issues && issues.length > 0 && (
+          <ul className="text-sm space-y-1">
+            {issues.map((issue, index) => (
+              <li key={index} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}>
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleValidate}
+            className="flex-1 bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg font-semibold"
+          >
+            Validate
+          </button>
+          <button
+            onClick={handlePlay}
+            className="flex-1 bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg font-semibold"
+          >
+            Play this level
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MazeEditor;
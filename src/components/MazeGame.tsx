@@ -1,19 +1,41 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
-import { MazeGenerator } from '../utils/mazeGenerator';
+import { Link } from 'react-router-dom';
+import { ExitPlacement, FloorConnection, MazeFeatureCounts, MazeGenerator, MazeLayout } from '../utils/mazeGenerator';
+import { MAZE_ALGORITHMS, MazeAlgorithmId } from '../utils/mazeAlgorithms';
+import { analyzeLayout, MazeStats } from '../utils/mazeAnalyzer';
+import { MaterialCache } from '../utils/materialCache';
+import { CellType, isBridge, isSolid, isSpawnable, isWalkable, MazeGrid, movementSpeed } from '../utils/mazeCells';
+import { CHUNK_SIZE, ChunkedMaze, chunkKey, chunkOf, MazeChunk } from '../utils/mazeChunks';
+import { GridPosition } from '../utils/mazePaths';
+import { loadImageMask, MazeMask, maskFromText, parseAsciiMask } from '../utils/mazeMask';
+import { createLevel, decodeShareCode, encodeShareCode, levelToLayout, MazeLevel } from '../utils/mazeLevel';
+import { renderMazeSvg, renderTopologySvg, svgToPng } from '../utils/mazeMap';
+import { MazeSolver } from '../utils/mazeSolver';
+import { createTopology, TopologyId } from '../utils/mazeTopology';
+import { createRandomSeed, createSeededRandom } from '../utils/random';
+import { disposeObject, ResourceRegistry } from '../utils/resourceRegistry';
+import { buildExportScene, exportGltf, exportObj, SceneExportFormat } from '../utils/sceneExport';
+import { generateTopologyLayout, TopologyMaze } from '../utils/topologyMaze';
 import { toast } from 'sonner';
+import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Settings, Cloud, Sun, CloudRain, CloudSnow, Heart } from 'lucide-react';
 
 interface Position {
   x: number;
   z: number;
+  // Level in multi-floor mazes, 0 when omitted
+  floor?: number;
 }
 
 interface Enemy {
   id: string;
   mesh: THREE.Mesh;
+  // Where the mesh was one simulation step ago, for drawing between steps
+  previousPosition: THREE.Vector3;
   position: Position;
+  floor: number;
   health: number;
   lastAttack: number;
   patrolPath: Position[];
@@ -29,10 +51,175 @@ interface Checkpoint {
   activated: boolean;
 }
 
+interface LockedDoor {
+  position: Position;
+  mesh: THREE.Mesh;
+}
+
+// Chunk of an endless maze in the scene; its walls and enemies live in group
+interface LoadedChunk {
+  x: number;
+  y: number;
+  group: THREE.Group;
+}
+
+// Draw calls of a recent frame for the HUD, next to what the walls would cost
+// drawn as one mesh (and one outline) per wall, and the geometries and
+// textures the renderer holds, which should not grow across restarts
+interface RenderStats {
+  drawCalls: number;
+  wallCalls: number;
+  unbatchedWallCalls: number;
+  geometries: number;
+  textures: number;
+}
+
 type GraphicsQuality = 'low' | 'medium' | 'high';
 type TimeOfDay = 'day' | 'night' | 'sunset' | 'dawn';
 type WeatherType = 'sunny' | 'cloudy' | 'rainy' | 'snowy';
 
+type GameMode = 'classic' | 'endless';
+
+const GAME_MODES: Record<GameMode, { label: string; description: string }> = {
+  classic: { label: 'Classic', description: 'Find the exit of a single maze.' },
+  endless: {
+    label: 'Endless',
+    description: 'A maze without borders, built around you as you explore. Score is the distance travelled.'
+  }
+};
+
+type MazeSizeId = 'small' | 'wide' | 'large' | 'marathon';
+
+const MAZE_SIZES: Record<MazeSizeId, { label: string; width: number; height: number }> = {
+  small: { label: 'Small (21x21)', width: 21, height: 21 },
+  wide: { label: 'Wide (41x21)', width: 41, height: 21 },
+  large: { label: 'Large (41x41)', width: 41, height: 41 },
+  marathon: { label: 'Marathon (201x201)', width: 201, height: 201 }
+};
+
+type MazeShapeId = 'rectangle' | 'heart' | 'diamond' | 'ring' | 'text' | 'image';
+
+// Outline the maze is carved into; ASCII templates use '#' for inside
+const MAZE_SHAPES: Record<MazeShapeId, { label: string; template?: string }> = {
+  rectangle: { label: 'Rectangle' },
+  heart: {
+    label: 'Heart',
+    template: `
+.###...###.
+#####.#####
+###########
+###########
+.#########.
+..#######..
+...#####...
+....###....
+.....#.....`
+  },
+  diamond: {
+    label: 'Diamond',
+    template: `
+....#....
+...###...
+..#####..
+.#######.
+#########
+.#######.
+..#####..
+...###...
+....#....`
+  },
+  ring: {
+    label: 'Ring',
+    template: `
+..#####..
+.#######.
+###...###
+##.....##
+##.....##
+##.....##
+###...###
+.#######.
+..#####..`
+  },
+  text: { label: 'Text...' },
+  image: { label: 'Image Silhouette...' }
+};
+
+// Cell lattice; hex and circular mazes have thin walls between their cells
+const MAZE_TOPOLOGIES: Record<TopologyId, { label: string }> = {
+  square: { label: 'Square' },
+  hex: { label: 'Hexagonal' },
+  theta: { label: 'Circular' }
+};
+
+// Uploaded silhouettes are sampled at this size and resampled per maze
+const IMAGE_MASK_RESOLUTION = 200;
+
+type LoopLevel = 'none' | 'some' | 'many' | 'all';
+
+// Share of dead ends the generator braids into loops
+const LOOP_LEVELS: Record<LoopLevel, { label: string; braid: number }> = {
+  none: { label: 'None (Single Route)', braid: 0 },
+  some: { label: 'Some Loops', braid: 0.25 },
+  many: { label: 'Many Loops', braid: 0.5 },
+  all: { label: 'No Dead Ends', braid: 1 }
+};
+
+type WeaveLevel = 'none' | 'some' | 'many';
+
+// Share of dead ends the generator tunnels under a neighbouring corridor
+const WEAVE_LEVELS: Record<WeaveLevel, { label: string; weave: number }> = {
+  none: { label: 'None (Flat)', weave: 0 },
+  some: { label: 'Some Bridges', weave: 0.35 },
+  many: { label: 'Many Bridges', weave: 1 }
+};
+
+type HazardLevel = 'none' | 'some' | 'many';
+
+// Special cells per 21x21 maze, scaled up with the maze area
+const HAZARD_LEVELS: Record<HazardLevel, { label: string; features: MazeFeatureCounts }> = {
+  none: { label: 'None', features: {} },
+  some: { label: 'Some', features: { doors: 4, lockedDoors: 2, water: 4, pits: 2, traps: 3 } },
+  many: { label: 'Many', features: { doors: 8, lockedDoors: 4, water: 8, pits: 5, traps: 6 } }
+};
+
+type FloorLevel = 'single' | 'double' | 'triple';
+
+// Stacked levels joined by stairs, ramps and ladders; the exit is on the top floor
+const FLOOR_LEVELS: Record<FloorLevel, { label: string; floors: number }> = {
+  single: { label: 'Single Floor', floors: 1 },
+  double: { label: '2 Floors', floors: 2 },
+  triple: { label: '3 Floors', floors: 3 }
+};
+
+type MapOverlay = 'none' | 'solution' | 'route' | 'both';
+
+// What the exported map shows on top of the maze
+const MAP_OVERLAYS: Record<MapOverlay, { label: string; solution: boolean; route: boolean }> = {
+  none: { label: 'Maze Only', solution: false, route: false },
+  solution: { label: 'With Solution', solution: true, route: false },
+  route: { label: 'With My Route', solution: false, route: true },
+  both: { label: 'Solution and My Route', solution: true, route: true }
+};
+
+type MaterialName = 'enemy' | 'enemyAttack' | 'checkpoint' | 'activeCheckpoint';
+
+// Materials of things that change look during play, shared through a MaterialCache
+const MATERIAL_PALETTE: Record<MaterialName, { color: number; emissive: number; emissiveIntensity?: number }> = {
+  enemy: { color: 0xff0000, emissive: 0x440000 },
+  // Pulsed by updateEnemies through emissiveIntensity
+  enemyAttack: { color: 0xff4444, emissive: 0xff0000, emissiveIntensity: 0.6 },
+  checkpoint: { color: 0x00ff00, emissive: 0x004400 },
+  activeCheckpoint: { color: 0xffff00, emissive: 0x444400 }
+};
+
+interface MazeGameProps {
+  // Fixed maze seed (e.g. from the ?seed= URL parameter); random when omitted
+  seed?: number | null;
+  // Level to play instead of a generated maze, e.g. from the level editor
+  level?: MazeLevel | null;
+}
+
 // Fixed PointerLockControls implementation with better mouse handling
 class PointerLockControls {
   camera: THREE.Camera;
@@ -140,29 +327,86 @@ class PointerLockControls {
   }
 }
 
-const MazeGame: React.FC = () => {
+function downloadFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const MazeGame: React.FC<MazeGameProps> = ({ seed: initialSeed, level: initialLevel }) => {
   const mountRef = useRef<HTMLDivElement>(null);
+  const [seed] = useState(() => initialSeed ?? createRandomSeed());
   const [gameWon, setGameWon] = useState(false);
   const [gameOver, setGameOver] = useState(false);
   const [isLocked, setIsLocked] = useState(false);
+  // The maze has been played, so the overlay is a pause screen rather than the start screen
+  const [hasStarted, setHasStarted] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [graphicsQuality, setGraphicsQuality] = useState<GraphicsQuality>('medium');
-  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>('day');
-  const [weather, setWeather] = useState<WeatherType>('sunny');
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>(initialLevel?.environment.timeOfDay ?? 'day');
+  const [weather, setWeather] = useState<WeatherType>(initialLevel?.environment.weather ?? 'sunny');
+  const [algorithm, setAlgorithm] = useState<MazeAlgorithmId>('backtracker');
+  const [mazeSize, setMazeSize] = useState<MazeSizeId>('small');
+  const [exitPlacement, setExitPlacement] = useState<ExitPlacement>('corner');
+  const [loopLevel, setLoopLevel] = useState<LoopLevel>('none');
+  const [weaveLevel, setWeaveLevel] = useState<WeaveLevel>('none');
+  const [hazardLevel, setHazardLevel] = useState<HazardLevel>('none');
+  const [floorLevel, setFloorLevel] = useState<FloorLevel>('single');
+  const [shape, setShape] = useState<MazeShapeId>('rectangle');
+  const [shapeText, setShapeText] = useState('MAZE');
+  const [imageMask, setImageMask] = useState<MazeMask | null>(null);
+  const [topologyId, setTopologyId] = useState<TopologyId>('square');
+  const [gameMode, setGameMode] = useState<GameMode>('classic');
+  // Level pasted as a share code; played instead of a generated maze
+  const [sharedLevel, setSharedLevel] = useState<MazeLevel | null>(initialLevel ?? null);
+  const [shareCodeInput, setShareCodeInput] = useState('');
+  const [mapOverlay, setMapOverlay] = useState<MapOverlay>('solution');
+  const [currentFloor, setCurrentFloor] = useState(0);
   const [lives, setLives] = useState(3);
   const [currentCheckpoint, setCurrentCheckpoint] = useState<Position>({ x: 1, z: 1 });
   const [isRespawning, setIsRespawning] = useState(false);
   const [score, setScore] = useState(0);
+  const [mazeStats, setMazeStats] = useState<MazeStats | null>(null);
+  const [renderStats, setRenderStats] = useState<RenderStats | null>(null);
   
   const sceneRef = useRef<THREE.Scene | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  // Shared materials of the current session
+  const materialsRef = useRef<MaterialCache<MaterialName> | null>(null);
+  // Environment and graphics settings the scene currently shows
+  const settingsRef = useRef<ReturnType<typeof getEnvironmentSettings> | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const controlsRef = useRef<PointerLockControls | null>(null);
-  const mazeRef = useRef<number[][]>([]);
-  const wallsRef = useRef<THREE.Mesh[]>([]);
+  // Grid of the floor the player is on; all floors live in floorsRef
+  const mazeRef = useRef<MazeGrid>([]);
+  // Passages and walls of hex and circular mazes; null on the square grid,
+  // where mazeRef holds the walls
+  const topologyMazeRef = useRef<TopologyMaze | null>(null);
+  // Endless mode: the chunk generator and the chunks currently in the scene
+  const chunkedMazeRef = useRef<ChunkedMaze | null>(null);
+  const loadedChunksRef = useRef(new Map<string, LoadedChunk>());
+  // The level being played, for share codes; null when it can't be shared
+  const levelRef = useRef<MazeLevel | null>(null);
+  // Distance walked in endless mode that hasn't been scored yet, in blocks
+  const unscoredDistanceRef = useRef(0);
+  const floorsRef = useRef<MazeGrid[]>([]);
+  const connectionsRef = useRef<FloorConnection[]>([]);
+  const currentFloorRef = useRef(0);
+  // Whether the player crossing a bridge cell is up on the deck or in the tunnel
+  const crossingLevelRef = useRef<'deck' | 'tunnel'>('tunnel');
+  const wallsRef = useRef<THREE.InstancedMesh[]>([]);
   const enemiesRef = useRef<Enemy[]>([]);
   const checkpointsRef = useRef<Checkpoint[]>([]);
+  const lockedDoorsRef = useRef<LockedDoor[]>([]);
+  const lastHazardRef = useRef(0);
   const playerPositionRef = useRef<Position>({ x: 1, z: 1 });
+  // Cells the player walked through for the exported map, split into a new
+  // segment on every respawn and change of floor
+  const playerRouteRef = useRef<GridPosition[][]>([]);
+  const startPositionRef = useRef<Position>({ x: 1, z: 1 });
   const exitPositionRef = useRef<Position>({ x: 0, z: 0 });
   const moveStateRef = useRef({
     forward: false,
@@ -171,11 +415,18 @@ const MazeGame: React.FC = () => {
     right: false
   });
   const respawnTimerRef = useRef<number | null>(null);
+  const hintRef = useRef<{ group: THREE.Group; timer: number } | null>(null);
   const keysRef = useRef<Set<string>>(new Set()); // Track currently pressed keys
 
-  const MAZE_SIZE = 21;
+  const MAZE_WIDTH = sharedLevel ? sharedLevel.floors[0][0].length : MAZE_SIZES[mazeSize].width;
+  const MAZE_HEIGHT = sharedLevel ? sharedLevel.floors[0].length : MAZE_SIZES[mazeSize].height;
   const WALL_HEIGHT = 3;
   const WALL_SIZE = 2;
+  // Gameplay runs in fixed steps whatever the display's refresh rate; speeds
+  // are per step
+  const SIMULATION_STEP = 1 / 60;
+  // Longest frame simulated, so a stalled tab doesn't replay seconds of play
+  const MAX_FRAME_TIME = 0.25;
   const MOVE_SPEED = 0.08; // Increased for better responsiveness
   const ENEMY_SPEED = 0.02;
   const ENEMY_ATTACK_RANGE = 2;
@@ -185,6 +436,59 @@ const MazeGame: React.FC = () => {
   const ENEMY_COUNT = 4;
   const MIN_SPAWN_DISTANCE = 8;
   const COLLISION_RADIUS = 0.3; // Reduced for better movement
+  const MAX_LAYOUT_ATTEMPTS = 5;
+  const HINT_COST = 50;
+  const HINT_DURATION = 8000;
+  const CHECKPOINT_COUNT = 3;
+  const TRAP_PENALTY = 25;
+  // Floors, shapes, bridges and hazards are built from square grid cells, and
+  // endless mazes are always square and single-floor. Shared levels are
+  // square classic levels with their own number of floors.
+  const IS_ENDLESS = gameMode === 'endless' && !sharedLevel;
+  const IS_SQUARE = topologyId === 'square' || IS_ENDLESS || sharedLevel !== null;
+  const FLOOR_COUNT = sharedLevel
+    ? sharedLevel.floors.length
+    : IS_SQUARE && !IS_ENDLESS ? FLOOR_LEVELS[floorLevel].floors : 1;
+  // Chunks kept around the player's chunk in endless mode; one more ring is
+  // kept loaded so walking along a border doesn't reload chunks every step
+  const CHUNK_LOAD_RADIUS = 1;
+  const CHUNK_ENEMY_COUNT = 2;
+  const FLOOR_HEIGHT = WALL_HEIGHT + 0.2;
+  const EYE_HEIGHT = 1.6;
+  const DECK_HEIGHT = 1.3;
+  const TUNNEL_EYE_HEIGHT = 1.0;
+  const THIN_WALL_THICKNESS = 0.3;
+  const RENDER_STATS_INTERVAL = 1000;
+
+  // Hex and circular mazes get one cell per room of the square maze, so their
+  // cells are two blocks apart like the rooms of the square grid
+  const topology = IS_SQUARE
+    ? createTopology('square', MAZE_WIDTH, MAZE_HEIGHT, WALL_SIZE)
+    : createTopology(topologyId, Math.floor((MAZE_WIDTH - 1) / 2), Math.floor((MAZE_HEIGHT - 1) / 2), WALL_SIZE * 2);
+
+  // Grid cell (x, z) to world coordinates of the cell centre
+  const gridToWorld = (x: number, z: number) => topology.center({ x, y: z });
+
+  // World height of the ground of a floor
+  const floorElevation = (floor: number = 0) => floor * FLOOR_HEIGHT;
+
+  // World coordinates to the grid cell underneath
+  const worldToGrid = (x: number, z: number): Position => {
+    const cell = topology.cellAt({ x, z });
+    return { x: cell.x, z: cell.y };
+  };
+
+  // Cell at a grid position on the current floor; endless mazes look it up in
+  // their chunks
+  const cellAt = (x: number, z: number): CellType | undefined =>
+    chunkedMazeRef.current ? chunkedMazeRef.current.cell(x, z) : mazeRef.current[z]?.[x];
+
+  // Straight-line distance between two cells in blocks, on any topology
+  const cellDistance = (a: Position, b: Position) => {
+    const from = gridToWorld(a.x, a.z);
+    const to = gridToWorld(b.x, b.z);
+    return Math.hypot(to.x - from.x, to.z - from.z) / WALL_SIZE;
+  };
 
   const getEnvironmentSettings = (time: TimeOfDay, weatherType: WeatherType, quality: GraphicsQuality) => {
     const timeSettings = {
@@ -292,11 +596,16 @@ const MazeGame: React.FC = () => {
     }
   };
 
+  // Apply the time of day, weather and graphics quality to the running game
+  // in place, keeping the maze, enemies, player, score and lives
   const updateEnvironment = () => {
     if (!sceneRef.current || !rendererRef.current) return;
 
     const settings = getEnvironmentSettings(timeOfDay, weather, graphicsQuality);
+    const previous = settingsRef.current;
+    settingsRef.current = settings;
     const scene = sceneRef.current;
+    const renderer = rendererRef.current;
 
     scene.background = new THREE.Color(settings.skyColor);
     scene.fog = new THREE.Fog(settings.fogColor, settings.fogNear, settings.fogFar * settings.fogDensity);
@@ -311,6 +620,26 @@ const MazeGame: React.FC = () => {
     if (directionalLight) {
       directionalLight.intensity = settings.directionalIntensity;
       directionalLight.color.setHex(settings.directionalColor);
+      directionalLight.castShadow = settings.enableShadows;
+      if (directionalLight.shadow.mapSize.width !== settings.shadowMapSize) {
+        directionalLight.shadow.mapSize.set(settings.shadowMapSize, settings.shadowMapSize);
+        // Created again at the new size on the next render
+        directionalLight.shadow.map?.dispose();
+        directionalLight.shadow.map = null;
+      }
+    }
+
+    // Materials compiled with or without shadows have to be compiled again
+    if (renderer.shadowMap.enabled !== settings.enableShadows || renderer.shadowMap.type !== settings.shadowMapType) {
+      renderer.shadowMap.enabled = settings.enableShadows;
+      renderer.shadowMap.type = settings.shadowMapType;
+      scene.traverse(child => {
+        if (!(child instanceof THREE.Mesh)) return;
+        const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach(material => {
+          material.needsUpdate = true;
+        });
+      });
     }
 
     const ground = scene.getObjectByName('ground') as THREE.Mesh;
@@ -318,13 +647,31 @@ const MazeGame: React.FC = () => {
       ground.material.color.setHex(settings.groundColor);
     }
 
+    if (previous && (previous.wallSegments !== settings.wallSegments || previous.enableEdgeSmoothing !== settings.enableEdgeSmoothing)) {
+      restyleWalls(settings);
+    }
+
+    const grass = scene.getObjectByName('grass');
+    if (grass && !settings.enableGrass) {
+      scene.remove(grass);
+      disposeObject(grass);
+    } else if (!grass && settings.enableGrass && floorsRef.current.length > 0) {
+      createGrass(scene, floorsRef.current[0]);
+    }
+
     handlePrecipitation(scene, settings);
+
+    // Share codes carry the environment being played
+    if (levelRef.current) {
+      levelRef.current = { ...levelRef.current, environment: { timeOfDay, weather } };
+    }
   };
 
   const handlePrecipitation = (scene: THREE.Scene, settings: any) => {
     const existingPrecipitation = scene.getObjectByName('precipitation');
     if (existingPrecipitation) {
       scene.remove(existingPrecipitation);
+      disposeObject(existingPrecipitation);
     }
 
     if (!settings.precipitation) return;
@@ -356,65 +703,47 @@ const MazeGame: React.FC = () => {
     scene.add(precipitationGroup);
   };
 
-  const isValidSpawnLocation = (x: number, z: number, maze: number[][], usedPositions: Position[] = []) => {
-    // Check if position is valid (not a wall)
-    if (maze[z][x] === 1) return false;
+  // x and z are relative to the maze's origin, usedPositions are absolute
+  const isValidSpawnLocation = (x: number, z: number, maze: MazeGrid, usedPositions: Position[] = [], origin: Position = { x: 0, z: 0 }) => {
+    // Check if position is valid (plain floor, no walls or special cells)
+    if (!isSpawnable(maze[z]?.[x])) return false;
     
-    // Check distance from player spawn (1, 1)
-    const playerDistance = Math.sqrt(Math.pow(x - 1, 2) + Math.pow(z - 1, 2));
+    // Check distance from player spawn
+    const playerDistance = cellDistance({ x: x + origin.x, z: z + origin.z }, startPositionRef.current);
     if (playerDistance < MIN_SPAWN_DISTANCE) return false;
     
     // Check distance from other used positions
     for (const pos of usedPositions) {
-      const distance = Math.sqrt(Math.pow(x - pos.x, 2) + Math.pow(z - pos.z, 2));
+      const distance = cellDistance({ x: x + origin.x, z: z + origin.z }, pos);
       if (distance < 4) return false; // Minimum 4 units between spawns
     }
     
     return true;
   };
 
-  const createEnemies = (scene: THREE.Scene, maze: number[][], settings: any) => {
-    const enemies: Enemy[] = [];
-    const usedPositions: Position[] = [];
-    
-    let enemiesCreated = 0;
-    let attempts = 0;
-    const maxAttempts = 200;
-    
-    console.log('Creating enemies with improved spawn logic...');
-    
-    while (enemiesCreated < ENEMY_COUNT && attempts < maxAttempts) {
-      attempts++;
-      
-      let x = Math.floor(Math.random() * MAZE_SIZE);
-      let z = Math.floor(Math.random() * MAZE_SIZE);
-      
-      if (!isValidSpawnLocation(x, z, maze, usedPositions)) {
-        continue;
-      }
+  // Enemy with a patrol starting at (x, z), relative to the maze's origin.
+  // Levels may fix the patrol waypoints, otherwise they are picked at random.
+  const createEnemy = (scene: THREE.Object3D, maze: MazeGrid, x: number, z: number, floor: number, origin: Position, id: string, patrol?: GridPosition[]): Enemy => {
+    const enemyGeometry = new THREE.SphereGeometry(0.5, 8, 8);
+    const enemyMesh = new THREE.Mesh(enemyGeometry, materialsRef.current.get('enemy'));
 
-      const enemyGeometry = new THREE.SphereGeometry(0.5, 8, 8);
-      const enemyMaterial = new THREE.MeshLambertMaterial({ 
-        color: 0xff0000,
-        emissive: 0x440000
-      });
-      const enemyMesh = new THREE.Mesh(enemyGeometry, enemyMaterial);
-      
-      enemyMesh.position.set(
-        (x - MAZE_SIZE / 2) * WALL_SIZE,
-        0.5,
-        (z - MAZE_SIZE / 2) * WALL_SIZE
-      );
+    const enemyWorld = gridToWorld(x + origin.x, z + origin.z);
+    enemyMesh.position.set(enemyWorld.x, floorElevation(floor) + 0.5, enemyWorld.z);
 
-      if (settings.enableShadows) {
-        enemyMesh.castShadow = true;
-      }
+    enemyMesh.castShadow = true;
 
-      scene.add(enemyMesh);
+    scene.add(enemyMesh);
 
-      // Create better patrol paths
-      const patrolPath: Position[] = [{ x, z }];
-      
+    // Create better patrol paths
+    const patrolPath: Position[] = [{ x: x + origin.x, z: z + origin.z }];
+
+    if (patrol && patrol.length > 0) {
+      patrolPath.push(...patrol.map(waypoint => ({ x: waypoint.x + origin.x, z: waypoint.y + origin.z })));
+    } else if (topologyMazeRef.current) {
+      // Hex and circular mazes have no straight lines to patrol: wander
+      // along the passages and back
+      patrolPath.push(...createPassagePatrol(topologyMazeRef.current, { x, z }));
+    } else {
       // Generate patrol points in different directions
       const directions = [
         { dx: 0, dz: -1 }, // North
@@ -422,92 +751,124 @@ const MazeGame: React.FC = () => {
         { dx: 0, dz: 1 },  // South
         { dx: -1, dz: 0 }  // West
       ];
-      
+
       for (let i = 0; i < 3; i++) {
         const direction = directions[Math.floor(Math.random() * directions.length)];
         const distance = 3 + Math.floor(Math.random() * 4);
-        
-        const newX = Math.max(1, Math.min(MAZE_SIZE - 2, x + direction.dx * distance));
-        const newZ = Math.max(1, Math.min(MAZE_SIZE - 2, z + direction.dz * distance));
-        
-        if (maze[newZ][newX] === 0) {
-          patrolPath.push({ x: newX, z: newZ });
+
+        const newX = Math.max(1, Math.min(maze[0].length - 2, x + direction.dx * distance));
+        const newZ = Math.max(1, Math.min(maze.length - 2, z + direction.dz * distance));
+
+        if (isWalkable(maze[newZ][newX])) {
+          patrolPath.push({ x: newX + origin.x, z: newZ + origin.z });
         }
       }
+    }
 
-      enemies.push({
-        id: `enemy_${enemiesCreated}`,
-        mesh: enemyMesh,
-        position: { x, z },
-        health: 100,
-        lastAttack: 0,
-        patrolPath,
-        currentPathIndex: 0,
-        speed: ENEMY_SPEED * (0.8 + Math.random() * 0.4),
-        isAttacking: false,
-        attackStartTime: 0
-      });
+    return {
+      id,
+      mesh: enemyMesh,
+      previousPosition: enemyMesh.position.clone(),
+      position: { x: x + origin.x, z: z + origin.z },
+      floor,
+      health: 100,
+      lastAttack: 0,
+      patrolPath,
+      currentPathIndex: 0,
+      speed: ENEMY_SPEED * (0.8 + Math.random() * 0.4),
+      isAttacking: false,
+      attackStartTime: 0
+    };
+  };
+
+  // Enemies for one floor, or for one chunk of an endless maze starting at origin
+  const createEnemies = (scene: THREE.Object3D, maze: MazeGrid, floor: number, origin: Position = { x: 0, z: 0 }, count = ENEMY_COUNT) => {
+    const enemies: Enemy[] = [];
+    const usedPositions: Position[] = [];
+    
+    let enemiesCreated = 0;
+    let attempts = 0;
+    const maxAttempts = 200;
+
+    // Dungeon rooms are tried first, for arena-style encounters
+    const roomCells: Position[] = [];
+    maze.forEach((row, z) => row.forEach((cell, x) => {
+      if (cell === CellType.Room) roomCells.push({ x, z });
+    }));
+    
+    console.log('Creating enemies with improved spawn logic...');
+    
+    while (enemiesCreated < count && attempts < maxAttempts) {
+      attempts++;
       
-      usedPositions.push({ x, z });
-      enemiesCreated++;
+      const roomCell = roomCells.length > 0 && attempts <= maxAttempts / 2
+        ? roomCells[Math.floor(Math.random() * roomCells.length)]
+        : null;
+      // Rows of circular mazes differ in length
+      const z = roomCell ? roomCell.z : Math.floor(Math.random() * maze.length);
+      const x = roomCell ? roomCell.x : Math.floor(Math.random() * maze[z].length);
+      
+      if (!isValidSpawnLocation(x, z, maze, usedPositions, origin)) {
+        continue;
+      }
+
+      enemies.push(createEnemy(scene, maze, x, z, floor, origin, `enemy_${origin.x}_${origin.z}_${floor}_${enemiesCreated}`));
       
-      console.log(`Enemy ${enemiesCreated} spawned at (${x}, ${z}), distance from player: ${Math.sqrt(Math.pow(x - 1, 2) + Math.pow(z - 1, 2)).toFixed(1)}`);
+      usedPositions.push({ x: x + origin.x, z: z + origin.z });
+      enemiesCreated++;
     }
 
     console.log(`Successfully created ${enemies.length} enemies with proper spacing`);
-    enemiesRef.current = enemies;
+    enemiesRef.current.push(...enemies);
+  };
+
+  // A few steps along the passages and back again, excluding the start cell
+  const createPassagePatrol = (topologyMaze: TopologyMaze, from: Position): Position[] => {
+    const steps = 3 + Math.floor(Math.random() * 4);
+    const route: Position[] = [];
+    let current = { x: from.x, y: from.z };
+    let previous = current;
+
+    for (let i = 0; i < steps; i++) {
+      const options = topologyMaze.linkedNeighbors(current).filter(cell => cell.x !== previous.x || cell.y !== previous.y);
+      if (options.length === 0) break;
+
+      previous = current;
+      current = options[Math.floor(Math.random() * options.length)];
+      route.push({ x: current.x, z: current.y });
+    }
+
+    // Retrace the route so the patrol never cuts through a wall
+    return [...route, ...route.slice(0, -1).reverse()];
   };
 
-  const createCheckpoints = (scene: THREE.Scene, maze: number[][], settings: any) => {
+  const createCheckpoints = (scene: THREE.Scene, maze: MazeGrid, floor: number) => {
     const checkpoints: Checkpoint[] = [];
-    const checkpointCount = 3;
-    const usedPositions: Position[] = [{ x: 1, z: 1 }]; // Include player spawn
 
-    for (let i = 0; i < checkpointCount; i++) {
-      let x, z;
-      let attempts = 0;
-      
-      do {
-        x = Math.floor(Math.random() * MAZE_SIZE);
-        z = Math.floor(Math.random() * MAZE_SIZE);
-        attempts++;
-      } while ((maze[z][x] === 1 || !isValidSpawnLocation(x, z, maze, usedPositions)) && attempts < 100);
-
-      if (attempts >= 100) {
-        console.warn(`Could not find valid position for checkpoint ${i}`);
-        continue;
-      }
+    // Checkpoint cells are placed by the generator
+    for (let z = 0; z < maze.length; z++) {
+      for (let x = 0; x < maze[z].length; x++) {
+        if (maze[z][x] !== CellType.Checkpoint) continue;
 
-      const checkpointGeometry = new THREE.CylinderGeometry(0.8, 0.8, 0.2, 16);
-      const checkpointMaterial = new THREE.MeshLambertMaterial({ 
-        color: 0x00ff00,
-        emissive: 0x004400
-      });
-      const checkpointMesh = new THREE.Mesh(checkpointGeometry, checkpointMaterial);
-      
-      checkpointMesh.position.set(
-        (x - MAZE_SIZE / 2) * WALL_SIZE,
-        0.1,
-        (z - MAZE_SIZE / 2) * WALL_SIZE
-      );
+        const checkpointGeometry = new THREE.CylinderGeometry(0.8, 0.8, 0.2, 16);
+        const checkpointMesh = new THREE.Mesh(checkpointGeometry, materialsRef.current.get('checkpoint'));
+        
+        const checkpointWorld = gridToWorld(x, z);
+        checkpointMesh.position.set(checkpointWorld.x, floorElevation(floor) + 0.1, checkpointWorld.z);
 
-      if (settings.enableShadows) {
         checkpointMesh.castShadow = true;
-      }
 
-      scene.add(checkpointMesh);
+        scene.add(checkpointMesh);
 
-      checkpoints.push({
-        position: { x, z },
-        mesh: checkpointMesh,
-        activated: false
-      });
-      
-      usedPositions.push({ x, z });
-      console.log(`Checkpoint ${i + 1} placed at (${x}, ${z})`);
+        checkpoints.push({
+          position: { x, z, floor },
+          mesh: checkpointMesh,
+          activated: false
+        });
+      }
     }
 
-    checkpointsRef.current = checkpoints;
+    checkpointsRef.current.push(...checkpoints);
   };
 
   const updateEnemies = () => {
@@ -515,13 +876,15 @@ const MazeGame: React.FC = () => {
 
     const currentTime = Date.now();
     const playerPos = playerPositionRef.current;
+    const materials = materialsRef.current;
 
     enemiesRef.current.forEach(enemy => {
       // Handle patrol movement
       if (enemy.patrolPath.length > 0) {
         const targetPos = enemy.patrolPath[enemy.currentPathIndex];
-        const dx = (targetPos.x - MAZE_SIZE / 2) * WALL_SIZE - enemy.mesh.position.x;
-        const dz = (targetPos.z - MAZE_SIZE / 2) * WALL_SIZE - enemy.mesh.position.z;
+        const targetWorld = gridToWorld(targetPos.x, targetPos.z);
+        const dx = targetWorld.x - enemy.mesh.position.x;
+        const dz = targetWorld.z - enemy.mesh.position.z;
         const distance = Math.sqrt(dx * dx + dz * dz);
 
         if (distance < 0.2) {
@@ -530,18 +893,13 @@ const MazeGame: React.FC = () => {
           enemy.mesh.position.x += (dx / distance) * enemy.speed;
           enemy.mesh.position.z += (dz / distance) * enemy.speed;
           
-          enemy.position = {
-            x: Math.round((enemy.mesh.position.x + MAZE_SIZE * WALL_SIZE / 2) / WALL_SIZE),
-            z: Math.round((enemy.mesh.position.z + MAZE_SIZE * WALL_SIZE / 2) / WALL_SIZE)
-          };
+          enemy.position = worldToGrid(enemy.mesh.position.x, enemy.mesh.position.z);
         }
       }
 
       if (!isRespawning) {
-        const playerDistance = Math.sqrt(
-          Math.pow(playerPos.x - enemy.position.x, 2) + 
-          Math.pow(playerPos.z - enemy.position.z, 2)
-        );
+        // Enemies never leave their floor
+        const playerDistance = enemy.floor !== currentFloorRef.current ? Infinity : cellDistance(playerPos, enemy.position);
 
         // Check if player is within attack range
         if (playerDistance < ENEMY_ATTACK_RANGE) {
@@ -549,48 +907,38 @@ const MazeGame: React.FC = () => {
           if (!enemy.isAttacking && currentTime - enemy.lastAttack > ENEMY_ATTACK_COOLDOWN) {
             enemy.isAttacking = true;
             enemy.attackStartTime = currentTime;
-            enemy.mesh.material = new THREE.MeshLambertMaterial({ 
-              color: 0xff4444,
-              emissive: 0x660000
-            });
+            enemy.mesh.material = materials.get('enemyAttack');
           }
           
           // Execute attack if currently attacking and within attack duration
           if (enemy.isAttacking && currentTime - enemy.attackStartTime >= ENEMY_ATTACK_DURATION) {
             enemy.lastAttack = currentTime;
             enemy.isAttacking = false;
-            enemy.mesh.material = new THREE.MeshLambertMaterial({ 
-              color: 0xff0000,
-              emissive: 0x440000
-            });
+            enemy.mesh.material = materials.get('enemy');
             attackPlayer();
           }
         } else {
           // Player escaped - cancel attack
           if (enemy.isAttacking) {
             enemy.isAttacking = false;
-            enemy.mesh.material = new THREE.MeshLambertMaterial({ 
-              color: 0xff0000,
-              emissive: 0x440000
-            });
+            enemy.mesh.material = materials.get('enemy');
             console.log(`Player escaped from enemy ${enemy.id} - attack cancelled`);
           }
         }
-        
-        // Visual feedback for attacking state
-        if (enemy.isAttacking) {
-          const attackProgress = (currentTime - enemy.attackStartTime) / ENEMY_ATTACK_DURATION;
-          const intensity = Math.sin(attackProgress * Math.PI * 4) * 0.5 + 0.5;
-          enemy.mesh.material = new THREE.MeshLambertMaterial({ 
-            color: new THREE.Color().setRGB(1, 0.2 + intensity * 0.3, 0.2 + intensity * 0.3),
-            emissive: new THREE.Color().setRGB(0.6 + intensity * 0.4, 0, 0)
-          });
-        }
       }
     });
+
+    // Visual feedback for attacking enemies, which all share the material:
+    // their glow pulses twice per attack
+    const intensity = Math.sin(currentTime / ENEMY_ATTACK_DURATION * Math.PI * 4) * 0.5 + 0.5;
+    materials.get('enemyAttack').emissiveIntensity = 0.6 + intensity * 0.4;
   };
 
   const attackPlayer = () => {
+    hurtPlayer("You've been attacked!");
+  };
+
+  const hurtPlayer = (reason: string) => {
     if (isRespawning) return;
     
     const newLives = lives - 1;
@@ -600,11 +948,46 @@ const MazeGame: React.FC = () => {
       setGameOver(true);
       toast.error("Game Over! You've run out of lives!");
     } else {
-      toast.error(`You've been attacked! Lives remaining: ${newLives}`);
+      toast.error(`${reason} Lives remaining: ${newLives}`);
       respawnPlayer();
     }
   };
 
+  // Pits cost a life, traps cost points; both re-arm after the respawn delay
+  const checkHazards = () => {
+    const playerPos = playerPositionRef.current;
+    const cell = cellAt(playerPos.x, playerPos.z);
+    const now = Date.now();
+
+    if (now - lastHazardRef.current < RESPAWN_DELAY) return;
+
+    if (cell === CellType.Pit) {
+      lastHazardRef.current = now;
+      hurtPlayer('You fell into a pit!');
+    } else if (cell === CellType.Trap) {
+      lastHazardRef.current = now;
+      setScore(prev => prev - TRAP_PENALTY);
+      toast.error(`You triggered a trap! -${TRAP_PENALTY} points`);
+    }
+  };
+
+  const setDoorsLocked = (locked: boolean) => {
+    lockedDoorsRef.current.forEach(door => {
+      floorsRef.current[door.position.floor ?? 0][door.position.z][door.position.x] = locked ? CellType.LockedDoor : CellType.Door;
+      door.mesh.visible = locked;
+    });
+  };
+
+  // Switch collision, hazards and hints to another floor; updateMovement eases
+  // the camera to the new height
+  const changeFloor = (floor: number) => {
+    if (!floorsRef.current[floor]) return;
+
+    currentFloorRef.current = floor;
+    mazeRef.current = floorsRef.current[floor];
+    setCurrentFloor(floor);
+  };
+
   const respawnPlayer = () => {
     if (!cameraRef.current || isRespawning) return;
     
@@ -620,12 +1003,12 @@ const MazeGame: React.FC = () => {
         const offsetX = (Math.random() - 0.5) * 0.5;
         const offsetZ = (Math.random() - 0.5) * 0.5;
         
-        cameraRef.current.position.set(
-          (currentCheckpoint.x - MAZE_SIZE / 2) * WALL_SIZE + offsetX,
-          1.6,
-          (currentCheckpoint.z - MAZE_SIZE / 2) * WALL_SIZE + offsetZ
-        );
+        const checkpointWorld = gridToWorld(currentCheckpoint.x, currentCheckpoint.z);
+        const checkpointFloor = currentCheckpoint.floor ?? 0;
+        changeFloor(checkpointFloor);
+        cameraRef.current.position.set(checkpointWorld.x + offsetX, floorElevation(checkpointFloor) + EYE_HEIGHT, checkpointWorld.z + offsetZ);
         playerPositionRef.current = { ...currentCheckpoint };
+        playerRouteRef.current.push([{ x: currentCheckpoint.x, y: currentCheckpoint.z, floor: checkpointFloor }]);
         setIsRespawning(false);
         toast.success("Respawned at checkpoint!");
         respawnTimerRef.current = null;
@@ -637,32 +1020,140 @@ const MazeGame: React.FC = () => {
     const playerPos = playerPositionRef.current;
     
     checkpointsRef.current.forEach(checkpoint => {
-      if (!checkpoint.activated) {
-        const distance = Math.sqrt(
-          Math.pow(playerPos.x - checkpoint.position.x, 2) + 
-          Math.pow(playerPos.z - checkpoint.position.z, 2)
-        );
+      if (!checkpoint.activated && (checkpoint.position.floor ?? 0) === currentFloorRef.current) {
+        const distance = cellDistance(playerPos, checkpoint.position);
 
         if (distance < 2) {
           checkpoint.activated = true;
           setCurrentCheckpoint(checkpoint.position);
           setScore(prev => prev + 100);
-          checkpoint.mesh.material = new THREE.MeshLambertMaterial({ 
-            color: 0xffff00,
-            emissive: 0x444400
-          });
+          checkpoint.mesh.material = materialsRef.current.get('activeCheckpoint');
           toast.success("Checkpoint activated! +100 points");
+
+          if (lockedDoorsRef.current.length > 0 && checkpointsRef.current.every(other => other.activated)) {
+            setDoorsLocked(false);
+            toast.success("All checkpoints activated! Locked doors are now open");
+          }
         }
       }
     });
   };
 
+  const clearHint = () => {
+    if (!hintRef.current) return;
+
+    const { group, timer } = hintRef.current;
+    window.clearTimeout(timer);
+    group.parent?.remove(group);
+    disposeObject(group);
+    hintRef.current = null;
+  };
+
+  // Draw a glowing breadcrumb trail along the shortest route to the exit, or
+  // to the nearest stairs towards the exit floor
+  const showHint = () => {
+    if (!sceneRef.current || hintRef.current) return;
+
+    if (chunkedMazeRef.current) {
+      toast.error("There is no exit in endless mode!");
+      return;
+    }
+
+    const playerPos = playerPositionRef.current;
+    const exitPos = exitPositionRef.current;
+    const floor = currentFloorRef.current;
+    const exitFloor = exitPos.floor ?? 0;
+    const goals = floor === exitFloor
+      ? [{ x: exitPos.x, y: exitPos.z }]
+      : connectionsRef.current
+        .filter(connection => connection.floor === (floor < exitFloor ? floor : floor - 1))
+        .map(connection => ({ x: connection.x, y: connection.y }));
+
+    const solver = new MazeSolver(mazeRef.current);
+    let path: GridPosition[] | null = null;
+    for (const goal of goals) {
+      const route = topologyMazeRef.current
+        ? topologyMazeRef.current.findPath({ x: playerPos.x, y: playerPos.z }, goal)
+        : solver.findPath({ x: playerPos.x, y: playerPos.z }, goal);
+      if (route && (!path || route.length < path.length)) path = route;
+    }
+
+    if (!path) {
+      toast.error("No route to the exit from here!");
+      return;
+    }
+
+    const group = new THREE.Group();
+    group.name = 'hintPath';
+
+    const points = path.map(cell => {
+      const world = gridToWorld(cell.x, cell.y);
+      return new THREE.Vector3(world.x, floorElevation(floor) + 0.05, world.z);
+    });
+    const line = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints(points),
+      new THREE.LineBasicMaterial({ color: 0x00ffff })
+    );
+    group.add(line);
+
+    // One breadcrumb every other cell keeps the trail readable
+    const crumbGeometry = new THREE.CircleGeometry(0.15, 12);
+    const crumbMaterial = new THREE.MeshBasicMaterial({ color: 0x00ffff, transparent: true, opacity: 0.8 });
+    points.forEach((point, index) => {
+      if (index % 2 !== 0) return;
+      const crumb = new THREE.Mesh(crumbGeometry, crumbMaterial);
+      crumb.rotation.x = -Math.PI / 2;
+      crumb.position.copy(point);
+      group.add(crumb);
+    });
+
+    sceneRef.current.add(group);
+    hintRef.current = { group, timer: window.setTimeout(clearHint, HINT_DURATION) };
+
+    setScore(prev => prev - HINT_COST);
+    const target = floor === exitFloor ? 'the exit' : 'the stairs';
+    toast.info(`Hint: ${path.length - 1} steps to ${target} (-${HINT_COST} points)`);
+  };
+
+  // The renderer outlives the sessions the effect below starts, so its memory
+  // counters show whether a restart leaves anything behind. Antialiasing is
+  // fixed when the WebGL context is created and needs a new one; the game
+  // carries on with it, and updateEnvironment sets up its shadows.
+  const antialias = getGraphicsSettings(graphicsQuality).antialias;
+  useEffect(() => {
+    const mount = mountRef.current;
+    if (!mount) return;
+
+    const renderer = new THREE.WebGLRenderer({ antialias });
+    renderer.setSize(window.innerWidth, window.innerHeight);
+    rendererRef.current = renderer;
+    mount.appendChild(renderer.domElement);
+
+    // Make canvas focusable
+    renderer.domElement.tabIndex = 0;
+    renderer.domElement.style.outline = 'none';
+
+    // A running game keeps its scene and carries on with the new canvas
+    if (controlsRef.current) {
+      controlsRef.current.domElement = renderer.domElement;
+    }
+
+    return () => {
+      mount.removeChild(renderer.domElement);
+      renderer.dispose();
+      renderer.forceContextLoss();
+      rendererRef.current = null;
+    };
+  }, [antialias]);
+
   useEffect(() => {
-    if (!mountRef.current) return;
+    if (!mountRef.current || !rendererRef.current) return;
 
     console.log('Initializing maze game with fixed movement...');
+    setHasStarted(false);
 
     const settings = getEnvironmentSettings(timeOfDay, weather, graphicsQuality);
+    settingsRef.current = settings;
 
     const scene = new THREE.Scene();
     scene.background = new THREE.Color(settings.skyColor);
@@ -675,23 +1166,17 @@ const MazeGame: React.FC = () => {
       0.1,
       1000
     );
-    camera.position.set(WALL_SIZE, 1.6, WALL_SIZE);
     cameraRef.current = camera;
 
-    const renderer = new THREE.WebGLRenderer({ antialias: settings.antialias });
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    if (settings.enableShadows) {
-      renderer.shadowMap.enabled = true;
-      renderer.shadowMap.type = settings.shadowMapType;
-    }
-    rendererRef.current = renderer;
-    mountRef.current.appendChild(renderer.domElement);
-
-    // Make canvas focusable and focus it
-    renderer.domElement.tabIndex = 0;
-    renderer.domElement.style.outline = 'none';
+    const renderer = rendererRef.current;
+    renderer.shadowMap.enabled = settings.enableShadows;
+    renderer.shadowMap.type = settings.shadowMapType;
     renderer.domElement.focus();
 
+    // Everything this session puts on the GPU, freed when it ends
+    const resources = new ResourceRegistry();
+    materialsRef.current = resources.track(new MaterialCache(MATERIAL_PALETTE));
+
     const ambientLight = new THREE.AmbientLight(0x404040, settings.ambientIntensity);
     ambientLight.name = 'ambientLight';
     scene.add(ambientLight);
@@ -699,54 +1184,181 @@ const MazeGame: React.FC = () => {
     const directionalLight = new THREE.DirectionalLight(settings.directionalColor, settings.directionalIntensity);
     directionalLight.name = 'directionalLight';
     directionalLight.position.set(10, 20, 10);
-    if (settings.enableShadows) {
-      directionalLight.castShadow = true;
-      directionalLight.shadow.mapSize.width = settings.shadowMapSize;
-      directionalLight.shadow.mapSize.height = settings.shadowMapSize;
-      directionalLight.shadow.camera.near = 0.1;
-      directionalLight.shadow.camera.far = 50;
-      directionalLight.shadow.camera.left = -25;
-      directionalLight.shadow.camera.right = 25;
-      directionalLight.shadow.camera.top = 25;
-      directionalLight.shadow.camera.bottom = -25;
-      directionalLight.shadow.bias = -0.001;
-    }
+    directionalLight.castShadow = settings.enableShadows;
+    directionalLight.shadow.mapSize.width = settings.shadowMapSize;
+    directionalLight.shadow.mapSize.height = settings.shadowMapSize;
+    directionalLight.shadow.camera.near = 0.1;
+    directionalLight.shadow.camera.far = 50;
+    directionalLight.shadow.camera.left = -25;
+    directionalLight.shadow.camera.right = 25;
+    directionalLight.shadow.camera.top = 25;
+    directionalLight.shadow.camera.bottom = -25;
+    directionalLight.shadow.bias = -0.001;
     scene.add(directionalLight);
 
-    const mazeGenerator = new MazeGenerator(MAZE_SIZE, MAZE_SIZE);
-    const maze = mazeGenerator.generate();
-    mazeRef.current = maze;
+    let layout: MazeLayout;
+    topologyMazeRef.current = null;
+    chunkedMazeRef.current = null;
+    loadedChunksRef.current.clear();
+    unscoredDistanceRef.current = 0;
+
+    if (sharedLevel) {
+      layout = levelToLayout(sharedLevel);
+      setMazeStats(analyzeLayout(layout).stats);
+    } else if (IS_ENDLESS) {
+      // Nothing is laid out up front: streamChunks builds the maze around the
+      // player, and there is no exit to find
+      chunkedMazeRef.current = new ChunkedMaze(seed, { algorithm, braid: LOOP_LEVELS[loopLevel].braid });
+      const start = chunkedMazeRef.current.startCell();
+      layout = { grid: [], floors: [], connections: [], start, exit: start, checkpoints: [] };
+      mazeRef.current = [];
+      currentFloorRef.current = 0;
+      setCurrentFloor(0);
+      setMazeStats(null);
+    } else if (IS_SQUARE) {
+      const createGenerator = (mask: MazeMask | undefined) => new MazeGenerator(MAZE_WIDTH, MAZE_HEIGHT, {
+        random: createSeededRandom(seed),
+        algorithm,
+        exitPlacement,
+        braid: LOOP_LEVELS[loopLevel].braid,
+        weave: WEAVE_LEVELS[weaveLevel].weave,
+        checkpoints: CHECKPOINT_COUNT,
+        features: scaleFeatures(HAZARD_LEVELS[hazardLevel].features),
+        floors: FLOOR_COUNT,
+        mask
+      });
+
+      // Degenerate layouts are rejected before anything is built; the seeded
+      // stream keeps retries reproducible
+      const generateRated = (mask: MazeMask | undefined) => {
+        const mazeGenerator = createGenerator(mask);
+        let generated = mazeGenerator.generateLayout();
+        let { analyzer, stats } = analyzeLayout(generated);
+        for (let attempt = 1; attempt < MAX_LAYOUT_ATTEMPTS && analyzer.isDegenerate(stats); attempt++) {
+          generated = mazeGenerator.generateLayout();
+          ({ analyzer, stats } = analyzeLayout(generated));
+        }
+        return { layout: generated, stats, degenerate: analyzer.isDegenerate(stats) };
+      };
 
-    let exitFound = false;
-    for (let x = MAZE_SIZE - 2; x >= MAZE_SIZE - 4 && !exitFound; x--) {
-      for (let z = MAZE_SIZE - 2; z >= MAZE_SIZE - 4 && !exitFound; z--) {
-        if (maze[z][x] === 0) {
-          exitPositionRef.current = { x, z };
-          exitFound = true;
+      // Stacking floors into a small or narrow shape can leave a floor with no
+      // way up, or no good maze at all; play the plain rectangle of the same
+      // seed instead
+      const shapeMask = getShapeMask();
+      let rated: { layout: MazeLayout; stats: MazeStats; degenerate: boolean };
+      try {
+        rated = generateRated(shapeMask);
+        if (rated.degenerate && shapeMask) {
+          toast.error("This shape leaves no playable maze, playing a rectangular maze instead");
+          rated = generateRated(undefined);
         }
+      } catch (error) {
+        toast.error(`${(error as Error).message}, playing a rectangular maze instead`);
+        rated = generateRated(undefined);
+      }
+      if (rated.degenerate) {
+        toast.warning("No well-formed maze for this seed: the exit may be close or parts of the maze cut off");
+      }
+
+      layout = rated.layout;
+      setMazeStats(rated.stats);
+    } else {
+      // Hex and circular mazes are carved on their own cell graph and can't be
+      // rated by the grid analyzer
+      const generated = generateTopologyLayout(topology, {
+        random: createSeededRandom(seed),
+        algorithm,
+        exitPlacement,
+        braid: LOOP_LEVELS[loopLevel].braid,
+        checkpoints: CHECKPOINT_COUNT
+      });
+      topologyMazeRef.current = generated.maze;
+      layout = generated.layout;
+      setMazeStats(null);
+    }
+
+    const maze = layout.grid;
+    floorsRef.current = layout.floors;
+    connectionsRef.current = layout.connections;
+    changeFloor(0);
+    startPositionRef.current = { x: layout.start.x, z: layout.start.y, floor: 0 };
+    exitPositionRef.current = { x: layout.exit.x, z: layout.exit.y, floor: layout.exit.floor ?? 0 };
+
+    const startWorld = gridToWorld(layout.start.x, layout.start.y);
+    camera.position.set(startWorld.x, EYE_HEIGHT, startWorld.z);
+    playerPositionRef.current = { x: layout.start.x, z: layout.start.y };
+    playerRouteRef.current = [[{ x: layout.start.x, y: layout.start.y, floor: 0 }]];
+    setCurrentCheckpoint({ ...startPositionRef.current });
+
+    wallsRef.current = [];
+    lockedDoorsRef.current = [];
+    enemiesRef.current = [];
+    checkpointsRef.current = [];
+    layout.floors.forEach((floorGrid, floor) => {
+      if (topologyMazeRef.current) {
+        createThinWalls(scene, topologyMazeRef.current, settings);
+      } else {
+        createMaze(scene, floorGrid, floor, settings);
+      }
+      if (floor > 0) {
+        createFloorSlab(scene, floorGrid, floor);
       }
+      createCellFeatures(scene, floorGrid, floor);
+      if (sharedLevel) {
+        sharedLevel.enemies
+          .filter(spawn => (spawn.floor ?? 0) === floor)
+          .forEach((spawn, index) => {
+            enemiesRef.current.push(createEnemy(scene, floorGrid, spawn.x, spawn.y, floor, { x: 0, z: 0 }, `enemy_${floor}_${index}`, spawn.patrol));
+          });
+      } else {
+        createEnemies(scene, floorGrid, floor);
+      }
+      createCheckpoints(scene, floorGrid, floor);
+    });
+
+    // Snapshot for share codes, before any doors are unlocked. Hex, circular
+    // and endless mazes aren't made of grid cells and can't be shared.
+    levelRef.current = IS_SQUARE && !IS_ENDLESS
+      ? createLevel(layout, {
+        seed: sharedLevel?.seed ?? seed,
+        algorithm: sharedLevel?.algorithm ?? algorithm,
+        enemies: enemiesRef.current.map(enemy => ({
+          x: enemy.patrolPath[0].x,
+          y: enemy.patrolPath[0].z,
+          floor: enemy.floor,
+          patrol: enemy.patrolPath.slice(1).map(waypoint => ({ x: waypoint.x, y: waypoint.z }))
+        })),
+        environment: { timeOfDay, weather }
+      })
+      : null;
+    createFloorConnections(scene, layout.connections);
+    if (!IS_ENDLESS) {
+      createExitMarker(scene);
     }
 
-    createMaze(scene, maze, settings);
-    createExitMarker(scene, settings);
-    createEnemies(scene, maze, settings);
-    createCheckpoints(scene, maze, settings);
+    // Nothing to collect means nothing to unlock the doors with
+    if (checkpointsRef.current.length === 0) {
+      setDoorsLocked(false);
+    }
 
-    const groundGeometry = new THREE.PlaneGeometry(MAZE_SIZE * WALL_SIZE, MAZE_SIZE * WALL_SIZE);
+    // Endless mode: large enough for every loaded chunk, moved by streamChunks
+    const groundSize = (2 * CHUNK_LOAD_RADIUS + 3) * CHUNK_SIZE * WALL_SIZE;
+    const groundGeometry = IS_ENDLESS
+      ? new THREE.PlaneGeometry(groundSize, groundSize)
+      : new THREE.PlaneGeometry(topology.width, topology.depth);
     const groundMaterial = new THREE.MeshLambertMaterial({ color: settings.groundColor });
     const ground = new THREE.Mesh(groundGeometry, groundMaterial);
     ground.name = 'ground';
     ground.rotation.x = -Math.PI / 2;
-    if (settings.enableShadows) {
-      ground.receiveShadow = true;
-    }
+    ground.receiveShadow = true;
     scene.add(ground);
 
     if (settings.enableGrass) {
-      createGrass(scene, maze, settings);
+      createGrass(scene, maze);
     }
 
     handlePrecipitation(scene, settings);
+    streamChunks(scene, settings);
 
     const controls = new PointerLockControls(camera, renderer.domElement);
     controlsRef.current = controls;
@@ -780,6 +1392,11 @@ const MazeGame: React.FC = () => {
           moveStateRef.current.right = true;
           console.log('Movement: Right ON');
           break;
+        case 'KeyH':
+          if (controls.isLocked) {
+            showHint();
+          }
+          break;
         case 'Escape':
           if (controls.isLocked) {
             controls.unlock();
@@ -832,8 +1449,9 @@ const MazeGame: React.FC = () => {
     const onLock = () => {
       console.log('Pointer locked - movement and mouse look enabled');
       setIsLocked(true);
+      setHasStarted(true);
       // Focus the canvas when locked
-      renderer.domElement.focus();
+      rendererRef.current?.domElement.focus();
     };
     const onUnlock = () => {
       console.log('Pointer unlocked - resetting movement state');
@@ -847,17 +1465,91 @@ const MazeGame: React.FC = () => {
     controls.addEventListener('lock', onLock);
     controls.addEventListener('unlock', onUnlock);
 
-    const animate = () => {
-      requestAnimationFrame(animate);
+    const clock = new THREE.Clock();
+    const previousCameraPosition = camera.position.clone();
+    const simulatedCameraPosition = new THREE.Vector3();
+    // Reused between frames, one per enemy
+    const simulatedEnemyPositions: THREE.Vector3[] = [];
+    let unsimulatedTime = 0;
+
+    const simulate = () => {
+      previousCameraPosition.copy(camera.position);
+      enemiesRef.current.forEach(enemy => enemy.previousPosition.copy(enemy.mesh.position));
+
+      updateMovement();
+      streamChunks(scene, settingsRef.current);
+      updateEnemies();
+      checkCheckpoints();
+      checkHazards();
+      checkWinCondition();
+    };
 
-      if (controls.isLocked && !gameWon && !gameOver && !isRespawning) {
-        updateMovement();
-        updateEnemies();
-        checkCheckpoints();
-        checkWinCondition();
+    // Draw the player and enemies alpha of the way from the previous step to
+    // the current one, then put them back where the simulation has them
+    const renderInterpolated = (renderer: THREE.WebGLRenderer, alpha: number) => {
+      const enemies = enemiesRef.current;
+      while (simulatedEnemyPositions.length < enemies.length) {
+        simulatedEnemyPositions.push(new THREE.Vector3());
       }
 
+      // Respawns and resets move the player further than a step can and
+      // aren't smoothed
+      simulatedCameraPosition.copy(camera.position);
+      const isTeleport = previousCameraPosition.distanceTo(simulatedCameraPosition) > WALL_SIZE;
+      camera.position.lerpVectors(previousCameraPosition, simulatedCameraPosition, isTeleport ? 1 : alpha);
+      enemies.forEach((enemy, index) => {
+        simulatedEnemyPositions[index].copy(enemy.mesh.position);
+        enemy.mesh.position.lerpVectors(enemy.previousPosition, simulatedEnemyPositions[index], alpha);
+      });
+
       renderer.render(scene, camera);
+
+      camera.position.copy(simulatedCameraPosition);
+      enemies.forEach((enemy, index) => enemy.mesh.position.copy(simulatedEnemyPositions[index]));
+    };
+
+    let lastRenderStatsTime = 0;
+    let frame = 0;
+    const animate = () => {
+      frame = requestAnimationFrame(animate);
+
+      const elapsed = Math.min(clock.getDelta(), MAX_FRAME_TIME);
+      const isPlaying = controls.isLocked && !gameWon && !gameOver && !isRespawning;
+      if (isPlaying) {
+        unsimulatedTime += elapsed;
+        while (unsimulatedTime >= SIMULATION_STEP) {
+          simulate();
+          unsimulatedTime -= SIMULATION_STEP;
+        }
+      } else {
+        unsimulatedTime = 0;
+      }
+
+      // Replaced when antialiasing is switched
+      const renderer = rendererRef.current;
+      if (!renderer) return;
+      if (isPlaying) {
+        renderInterpolated(renderer, unsimulatedTime / SIMULATION_STEP);
+      } else {
+        // Nothing moves; teleports such as a reset show right away
+        renderer.render(scene, camera);
+      }
+
+      const now = Date.now();
+      if (now - lastRenderStatsTime >= RENDER_STATS_INTERVAL) {
+        lastRenderStatsTime = now;
+        // One call for the mesh, one in the sun's shadow pass, one for the outline
+        const { enableShadows, enableEdgeSmoothing } = settingsRef.current;
+        const callsPerWall = 1 + (enableShadows ? 1 : 0) + (enableEdgeSmoothing && !topologyMazeRef.current ? 1 : 0);
+        const wallCount = wallsRef.current.reduce((total, walls) => total + walls.count, 0);
+        setRenderStats({
+          drawCalls: renderer.info.render.calls,
+          wallCalls: wallsRef.current.length * callsPerWall,
+          unbatchedWallCalls: wallCount * callsPerWall,
+          geometries: renderer.info.memory.geometries,
+          textures: renderer.info.memory.textures
+        });
+      }
     };
     animate();
 
@@ -871,87 +1563,133 @@ const MazeGame: React.FC = () => {
       controls.removeEventListener('lock', onLock);
       controls.removeEventListener('unlock', onUnlock);
       controls.disconnect();
-      
-      if (mountRef.current && renderer.domElement) {
-        mountRef.current.removeChild(renderer.domElement);
+
+      cancelAnimationFrame(frame);
+      if (respawnTimerRef.current) {
+        window.clearTimeout(respawnTimerRef.current);
+        respawnTimerRef.current = null;
       }
-      renderer.dispose();
+      clearHint();
+      resources.trackObject(scene);
+      resources.dispose();
+      sceneRef.current = null;
     };
-  }, [graphicsQuality, timeOfDay, weather]);
+  }, [seed, algorithm, mazeSize, exitPlacement, loopLevel, hazardLevel, floorLevel, shape, shapeText, imageMask, weaveLevel, topologyId, gameMode, sharedLevel]);
 
   useEffect(() => {
     updateEnvironment();
-  }, [timeOfDay, weather]);
-
-  const createMaze = (scene: THREE.Scene, maze: number[][], settings: any) => {
-    const wallGeometry = new THREE.BoxGeometry(
-      WALL_SIZE, 
-      WALL_HEIGHT, 
-      WALL_SIZE,
-      settings.wallSegments,
-      settings.wallSegments,
-      settings.wallSegments
-    );
-    
+  }, [timeOfDay, weather, graphicsQuality]);
+
+  const getShapeMask = (): MazeMask | undefined => {
+    switch (shape) {
+      case 'rectangle':
+        return undefined;
+      case 'text':
+        // One mask pixel per maze cell
+        return maskFromText(shapeText, Math.floor((MAZE_WIDTH - 1) / 2), Math.floor((MAZE_HEIGHT - 1) / 2));
+      case 'image':
+        return imageMask ?? undefined;
+      default:
+        return parseAsciiMask(MAZE_SHAPES[shape].template ?? '');
+    }
+  };
+
+  const scaleFeatures = (features: MazeFeatureCounts): MazeFeatureCounts => {
+    const scale = (MAZE_WIDTH * MAZE_HEIGHT) / (21 * 21);
+    const scaled: MazeFeatureCounts = {};
+    (Object.keys(features) as (keyof MazeFeatureCounts)[]).forEach(key => {
+      scaled[key] = Math.round((features[key] ?? 0) * scale);
+    });
+    return scaled;
+  };
+
+  // Walls of one floor, or of one chunk of an endless maze starting at origin,
+  // drawn as one InstancedMesh (plus one set of outlines) so a floor costs a
+  // couple of draw calls however large it is. wallsRef collects the wall
+  // meshes of every floor and chunk; instance matrices place each wall.
+  const createMaze = (scene: THREE.Object3D, maze: MazeGrid, floor: number, settings: any, origin: Position = { x: 0, z: 0 }) => {
+    const cells: Position[] = [];
+    for (let z = 0; z < maze.length; z++) {
+      for (let x = 0; x < maze[z].length; x++) {
+        if (maze[z][x] === CellType.Wall) cells.push({ x: x + origin.x, z: z + origin.z });
+      }
+    }
+    if (cells.length === 0) return;
+
+    const baseHeight = floorElevation(floor);
     const wallMaterial = new THREE.MeshLambertMaterial({ 
       color: 0x8B4513,
       map: createBrickTexture(settings)
     });
 
+    const walls = new THREE.InstancedMesh(createWallGeometry(settings), wallMaterial, cells.length);
+    const matrix = new THREE.Matrix4();
+    cells.forEach((cell, index) => {
+      const wallWorld = gridToWorld(cell.x, cell.z);
+      walls.setMatrixAt(index, matrix.makeTranslation(wallWorld.x, baseHeight + WALL_HEIGHT / 2, wallWorld.z));
+    });
+    walls.castShadow = true;
+    walls.receiveShadow = true;
     if (settings.enableEdgeSmoothing) {
-      const edges = new THREE.EdgesGeometry(wallGeometry);
-      const edgeMaterial = new THREE.LineBasicMaterial({ color: 0x654321 });
-      
-      wallsRef.current = [];
+      walls.add(createWallOutlines(walls));
+    }
+    scene.add(walls);
+    wallsRef.current.push(walls);
+  };
 
-      for (let z = 0; z < maze.length; z++) {
-        for (let x = 0; x < maze[z].length; x++) {
-          if (maze[z][x] === 1) {
-            const wall = new THREE.Mesh(wallGeometry, wallMaterial);
-            const wireframe = new THREE.LineSegments(edges, edgeMaterial);
-            
-            const position = new THREE.Vector3(
-              (x - MAZE_SIZE / 2) * WALL_SIZE,
-              WALL_HEIGHT / 2,
-              (z - MAZE_SIZE / 2) * WALL_SIZE
-            );
-            
-            wall.position.copy(position);
-            wireframe.position.copy(position);
-            
-            if (settings.enableShadows) {
-              wall.castShadow = true;
-              wall.receiveShadow = true;
-            }
-            
-            scene.add(wall);
-            scene.add(wireframe);
-            wallsRef.current.push(wall);
-          }
-        }
-      }
-    } else {
-      wallsRef.current = [];
-
-      for (let z = 0; z < maze.length; z++) {
-        for (let x = 0; x < maze[z].length; x++) {
-          if (maze[z][x] === 1) {
-            const wall = new THREE.Mesh(wallGeometry, wallMaterial);
-            wall.position.set(
-              (x - MAZE_SIZE / 2) * WALL_SIZE,
-              WALL_HEIGHT / 2,
-              (z - MAZE_SIZE / 2) * WALL_SIZE
-            );
-            if (settings.enableShadows) {
-              wall.castShadow = true;
-              wall.receiveShadow = true;
-            }
-            scene.add(wall);
-            wallsRef.current.push(wall);
-          }
-        }
+  const createWallGeometry = (settings: { wallSegments: number }) => new THREE.BoxGeometry(
+    WALL_SIZE, 
+    WALL_HEIGHT, 
+    WALL_SIZE,
+    settings.wallSegments,
+    settings.wallSegments,
+    settings.wallSegments
+  );
+
+  // The edges of every instance merged into one LineSegments, since lines
+  // can't be instanced; added as a child of the walls
+  const createWallOutlines = (walls: THREE.InstancedMesh) => {
+    const edges = new THREE.EdgesGeometry(walls.geometry);
+    const edgeVertices = edges.getAttribute('position');
+    const positions = new Float32Array(walls.count * edgeVertices.count * 3);
+    const matrix = new THREE.Matrix4();
+    const vertex = new THREE.Vector3();
+
+    for (let index = 0; index < walls.count; index++) {
+      walls.getMatrixAt(index, matrix);
+      for (let i = 0; i < edgeVertices.count; i++) {
+        vertex.fromBufferAttribute(edgeVertices, i).applyMatrix4(matrix);
+        vertex.toArray(positions, (index * edgeVertices.count + i) * 3);
       }
     }
+    edges.dispose();
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    return new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ color: 0x654321 }));
+  };
+
+  // Give the walls already built the geometry, brick texture and outlines of
+  // new graphics settings
+  const restyleWalls = (settings: { wallSegments: number; enableEdgeSmoothing: boolean }) => {
+    wallsRef.current.forEach(walls => {
+      const material = walls.material as THREE.MeshLambertMaterial;
+      material.map?.dispose();
+      material.map = createBrickTexture(settings);
+
+      // Thin walls are stretched unit boxes without outlines
+      if (topologyMazeRef.current) return;
+
+      walls.geometry.dispose();
+      walls.geometry = createWallGeometry(settings);
+      [...walls.children].forEach(outlines => {
+        walls.remove(outlines);
+        disposeObject(outlines);
+      });
+      if (settings.enableEdgeSmoothing) {
+        walls.add(createWallOutlines(walls));
+      }
+    });
   };
 
   const createBrickTexture = (settings: any) => {
@@ -997,64 +1735,331 @@ const MazeGame: React.FC = () => {
     return texture;
   };
 
-  const createGrass = (scene: THREE.Scene, maze: number[][], settings: any) => {
-    const grassGroup = new THREE.Group();
-    
+  // Walls of hex and circular mazes: one thin slab per wall segment, long
+  // enough to close the joints with its neighbours, all in one InstancedMesh
+  const createThinWalls = (scene: THREE.Scene, topologyMaze: TopologyMaze, settings: { enableEdgeSmoothing: boolean }) => {
+    const wallGeometry = new THREE.BoxGeometry(1, WALL_HEIGHT, 1);
+    const wallMaterial = new THREE.MeshLambertMaterial({
+      color: 0x8B4513,
+      map: createBrickTexture(settings)
+    });
+
+    const segments = topologyMaze.walls();
+    const walls = new THREE.InstancedMesh(wallGeometry, wallMaterial, segments.length);
+    const slab = new THREE.Object3D();
+    segments.forEach(([from, to], index) => {
+      const length = Math.hypot(to.x - from.x, to.z - from.z);
+      slab.position.set((from.x + to.x) / 2, WALL_HEIGHT / 2, (from.z + to.z) / 2);
+      slab.rotation.y = -Math.atan2(to.z - from.z, to.x - from.x);
+      slab.scale.set(length + THIN_WALL_THICKNESS, 1, THIN_WALL_THICKNESS);
+      slab.updateMatrix();
+      walls.setMatrixAt(index, slab.matrix);
+    });
+    walls.castShadow = true;
+    walls.receiveShadow = true;
+    scene.add(walls);
+    wallsRef.current.push(walls);
+  };
+
+  // Walls and enemies of one chunk of an endless maze, grouped so the chunk can
+  // be dropped in one go
+  const loadChunk = (scene: THREE.Scene, chunk: MazeChunk, settings: ReturnType<typeof getEnvironmentSettings>) => {
+    const group = new THREE.Group();
+    group.name = `chunk_${chunk.x}_${chunk.y}`;
+    const origin = { x: chunk.x * CHUNK_SIZE, z: chunk.y * CHUNK_SIZE };
+
+    createMaze(group, chunk.grid, 0, settings, origin);
+    createEnemies(group, chunk.grid, 0, origin, CHUNK_ENEMY_COUNT);
+
+    scene.add(group);
+    loadedChunksRef.current.set(chunkKey(chunk.x, chunk.y), { x: chunk.x, y: chunk.y, group });
+  };
+
+  const unloadChunk = (key: string) => {
+    const chunk = loadedChunksRef.current.get(key);
+    if (!chunk) return;
+
+    const { group } = chunk;
+    wallsRef.current = wallsRef.current.filter(wall => wall.parent !== group);
+    enemiesRef.current = enemiesRef.current.filter(enemy => enemy.mesh.parent !== group);
+    group.parent?.remove(group);
+    disposeObject(group);
+
+    loadedChunksRef.current.delete(key);
+    chunkedMazeRef.current?.release(chunk.x, chunk.y);
+  };
+
+  // Keep the chunks around the player's chunk loaded and drop the ones left
+  // behind; does nothing until the player enters another chunk
+  const streamChunks = (scene: THREE.Scene, settings: ReturnType<typeof getEnvironmentSettings>) => {
+    const chunkedMaze = chunkedMazeRef.current;
+    if (!chunkedMaze) return;
+
+    const playerPos = playerPositionRef.current;
+    const center = chunkOf(playerPos.x, playerPos.z);
+    const loaded = loadedChunksRef.current;
+
+    for (const [key, chunk] of loaded) {
+      if (Math.max(Math.abs(chunk.x - center.x), Math.abs(chunk.y - center.y)) > CHUNK_LOAD_RADIUS + 1) {
+        unloadChunk(key);
+      }
+    }
+
+    for (let y = center.y - CHUNK_LOAD_RADIUS; y <= center.y + CHUNK_LOAD_RADIUS; y++) {
+      for (let x = center.x - CHUNK_LOAD_RADIUS; x <= center.x + CHUNK_LOAD_RADIUS; x++) {
+        if (!loaded.has(chunkKey(x, y))) {
+          loadChunk(scene, chunkedMaze.chunk(x, y), settings);
+        }
+      }
+    }
+
+    // The ground travels with the player
+    const ground = scene.getObjectByName('ground');
+    const groundCenter = gridToWorld((center.x + 0.5) * CHUNK_SIZE, (center.y + 0.5) * CHUNK_SIZE);
+    ground?.position.set(groundCenter.x, 0, groundCenter.z);
+  };
+
+  // Ground of an upper floor (and ceiling of the one below), open above the
+  // stairs; one instance per cell, like the walls
+  const createFloorSlab = (scene: THREE.Scene, maze: MazeGrid, floor: number) => {
+    const cells: Position[] = [];
     for (let z = 0; z < maze.length; z++) {
       for (let x = 0; x < maze[z].length; x++) {
-        if (maze[z][x] === 0) {
-          const grassCount = Math.random() * 15 + 5;
-          
-          for (let i = 0; i < grassCount; i++) {
-            const grassGeometry = new THREE.CylinderGeometry(0.01, 0.02, 0.3, 3);
-            const grassMaterial = new THREE.MeshLambertMaterial({ 
-              color: new THREE.Color().setHSL(0.25 + Math.random() * 0.1, 0.8, 0.4 + Math.random() * 0.2)
+        if (maze[z][x] !== CellType.Wall && maze[z][x] !== CellType.StairsDown) cells.push({ x, z });
+      }
+    }
+    if (cells.length === 0) return;
+
+    const slabs = new THREE.InstancedMesh(
+      new THREE.BoxGeometry(WALL_SIZE, 0.2, WALL_SIZE),
+      new THREE.MeshLambertMaterial({ color: 0x808080 }),
+      cells.length
+    );
+    const matrix = new THREE.Matrix4();
+    cells.forEach((cell, index) => {
+      const world = gridToWorld(cell.x, cell.z);
+      slabs.setMatrixAt(index, matrix.makeTranslation(world.x, floorElevation(floor) - 0.1, world.z));
+    });
+    slabs.name = 'floorSlab';
+    slabs.receiveShadow = true;
+    scene.add(slabs);
+  };
+
+  // Stairs, ramps and ladders rising from a StairsUp cell to the floor above
+  const createFloorConnections = (scene: THREE.Scene, connections: FloorConnection[]) => {
+    const stepCount = 8;
+    const stepGeometry = new THREE.BoxGeometry(WALL_SIZE, FLOOR_HEIGHT / stepCount, WALL_SIZE / stepCount);
+    const rampGeometry = new THREE.BoxGeometry(WALL_SIZE, 0.1, Math.hypot(WALL_SIZE, FLOOR_HEIGHT));
+    const railGeometry = new THREE.BoxGeometry(0.1, FLOOR_HEIGHT, 0.1);
+    const rungGeometry = new THREE.BoxGeometry(WALL_SIZE * 0.6, 0.08, 0.08);
+    const stoneMaterial = new THREE.MeshLambertMaterial({ color: 0xA9A9A9 });
+    const woodMaterial = new THREE.MeshLambertMaterial({ color: 0x6B4226 });
+
+    connections.forEach(connection => {
+      const world = gridToWorld(connection.x, connection.y);
+      const group = new THREE.Group();
+
+      // Everything rises towards -z, like walking forward from the south side
+      switch (connection.kind) {
+        case 'stairs':
+          for (let step = 0; step < stepCount; step++) {
+            const mesh = new THREE.Mesh(stepGeometry, stoneMaterial);
+            mesh.position.set(0, (step + 0.5) * FLOOR_HEIGHT / stepCount, WALL_SIZE / 2 - (step + 0.5) * WALL_SIZE / stepCount);
+            group.add(mesh);
+          }
+          break;
+        case 'ramp': {
+          const ramp = new THREE.Mesh(rampGeometry, stoneMaterial);
+          ramp.position.y = FLOOR_HEIGHT / 2;
+          ramp.rotation.x = Math.atan2(FLOOR_HEIGHT, WALL_SIZE);
+          group.add(ramp);
+          break;
+        }
+        case 'ladder': {
+          const back = -WALL_SIZE / 2 + 0.2;
+          [-1, 1].forEach(side => {
+            const rail = new THREE.Mesh(railGeometry, woodMaterial);
+            rail.position.set(side * WALL_SIZE * 0.3, FLOOR_HEIGHT / 2, back);
+            group.add(rail);
+          });
+          for (let height = 0.3; height < FLOOR_HEIGHT; height += 0.4) {
+            const rung = new THREE.Mesh(rungGeometry, woodMaterial);
+            rung.position.set(0, height, back);
+            group.add(rung);
+          }
+          break;
+        }
+      }
+
+      group.traverse(child => {
+        child.castShadow = true;
+      });
+      group.name = 'floorConnection';
+      group.position.set(world.x, floorElevation(connection.floor), world.z);
+      scene.add(group);
+    });
+  };
+
+  // Room floors, bridges, doors, locked doors, water, pits and traps; walls are built by createMaze
+  const createCellFeatures = (scene: THREE.Scene, maze: MazeGrid, floor: number) => {
+    const baseHeight = floorElevation(floor);
+    const floorGeometry = new THREE.PlaneGeometry(WALL_SIZE, WALL_SIZE);
+    const waterMaterial = new THREE.MeshLambertMaterial({ color: 0x1E90FF, transparent: true, opacity: 0.7 });
+    const pitMaterial = new THREE.MeshBasicMaterial({ color: 0x050505 });
+    const trapMaterial = new THREE.MeshLambertMaterial({ color: 0x8B0000, emissive: 0x220000 });
+    const roomMaterial = new THREE.MeshLambertMaterial({ color: 0x6E6259 });
+    const doorFrameMaterial = new THREE.MeshLambertMaterial({ color: 0x5C3A1E });
+    const lockedDoorMaterial = new THREE.MeshLambertMaterial({ color: 0xDAA520, emissive: 0x332200 });
+    const postGeometry = new THREE.BoxGeometry(0.2, WALL_HEIGHT, 0.2);
+    const lintelGeometry = new THREE.BoxGeometry(WALL_SIZE, 0.3, 0.2);
+    const doorPanelGeometry = new THREE.BoxGeometry(WALL_SIZE, WALL_HEIGHT, 0.3);
+    const deckGeometry = new THREE.BoxGeometry(WALL_SIZE, 0.2, WALL_SIZE);
+    const rampGeometry = new THREE.BoxGeometry(WALL_SIZE, 0.1, Math.hypot(WALL_SIZE, DECK_HEIGHT));
+    const railGeometry = new THREE.BoxGeometry(0.1, 0.5, WALL_SIZE);
+    const bridgeMaterial = new THREE.MeshLambertMaterial({ color: 0x8B7355 });
+
+    const addFloorTile = (x: number, z: number, material: THREE.Material, height: number) => {
+      const world = gridToWorld(x, z);
+      const tile = new THREE.Mesh(floorGeometry, material);
+      tile.rotation.x = -Math.PI / 2;
+      tile.position.set(world.x, baseHeight + height, world.z);
+      tile.receiveShadow = true;
+      scene.add(tile);
+    };
+
+    for (let z = 0; z < maze.length; z++) {
+      for (let x = 0; x < maze[z].length; x++) {
+        const cell = maze[z][x];
+        const world = gridToWorld(x, z);
+        // Doors face along the passage they sit in
+        const alongX = isWalkable(maze[z][x - 1]) || isWalkable(maze[z][x + 1]);
+
+        switch (cell) {
+          case CellType.Room:
+            addFloorTile(x, z, roomMaterial, 0.01);
+            break;
+          case CellType.Water:
+            addFloorTile(x, z, waterMaterial, 0.03);
+            break;
+          case CellType.Pit:
+            addFloorTile(x, z, pitMaterial, 0.02);
+            break;
+          case CellType.Trap:
+            addFloorTile(x, z, trapMaterial, 0.02);
+            break;
+          case CellType.BridgeNS:
+          case CellType.BridgeEW: {
+            // Deck with a ramp on either side, built north-south and turned for east-west
+            const bridge = new THREE.Group();
+            const deck = new THREE.Mesh(deckGeometry, bridgeMaterial);
+            deck.position.y = DECK_HEIGHT - 0.1;
+            bridge.add(deck);
+            [-1, 1].forEach(side => {
+              const ramp = new THREE.Mesh(rampGeometry, bridgeMaterial);
+              ramp.position.set(0, DECK_HEIGHT / 2, side * WALL_SIZE);
+              ramp.rotation.x = side * Math.atan2(DECK_HEIGHT, WALL_SIZE);
+              const rail = new THREE.Mesh(railGeometry, bridgeMaterial);
+              rail.position.set(side * (WALL_SIZE / 2 - 0.05), DECK_HEIGHT + 0.25, 0);
+              bridge.add(ramp, rail);
             });
-            const grassBlade = new THREE.Mesh(grassGeometry, grassMaterial);
-            
-            const offsetX = (Math.random() - 0.5) * WALL_SIZE * 0.8;
-            const offsetZ = (Math.random() - 0.5) * WALL_SIZE * 0.8;
-            
-            grassBlade.position.set(
-              (x - MAZE_SIZE / 2) * WALL_SIZE + offsetX,
-              0.15,
-              (z - MAZE_SIZE / 2) * WALL_SIZE + offsetZ
-            );
-            
-            grassBlade.rotation.y = Math.random() * Math.PI * 2;
-            grassBlade.rotation.x = (Math.random() - 0.5) * 0.2;
-            grassBlade.scale.y = 0.8 + Math.random() * 0.4;
-            
-            if (settings.enableShadows) {
-              grassBlade.castShadow = true;
-            }
-            
-            grassGroup.add(grassBlade);
+            bridge.position.set(world.x, baseHeight, world.z);
+            if (cell === CellType.BridgeEW) bridge.rotation.y = Math.PI / 2;
+            bridge.traverse(child => {
+              child.castShadow = true;
+              child.receiveShadow = true;
+            });
+            scene.add(bridge);
+            break;
+          }
+          case CellType.Door: {
+            const frame = new THREE.Group();
+            const leftPost = new THREE.Mesh(postGeometry, doorFrameMaterial);
+            const rightPost = new THREE.Mesh(postGeometry, doorFrameMaterial);
+            const lintel = new THREE.Mesh(lintelGeometry, doorFrameMaterial);
+            leftPost.position.set(-WALL_SIZE / 2 + 0.1, WALL_HEIGHT / 2, 0);
+            rightPost.position.set(WALL_SIZE / 2 - 0.1, WALL_HEIGHT / 2, 0);
+            lintel.position.set(0, WALL_HEIGHT - 0.15, 0);
+            frame.add(leftPost, rightPost, lintel);
+            frame.position.set(world.x, baseHeight, world.z);
+            if (alongX) frame.rotation.y = Math.PI / 2;
+            scene.add(frame);
+            break;
+          }
+          case CellType.LockedDoor: {
+            const panel = new THREE.Mesh(doorPanelGeometry, lockedDoorMaterial);
+            panel.position.set(world.x, baseHeight + WALL_HEIGHT / 2, world.z);
+            if (alongX) panel.rotation.y = Math.PI / 2;
+            panel.castShadow = true;
+            scene.add(panel);
+            lockedDoorsRef.current.push({ position: { x, z, floor }, mesh: panel });
+            break;
           }
         }
       }
     }
-    
-    scene.add(grassGroup);
   };
 
-  const createExitMarker = (scene: THREE.Scene, settings: any) => {
+  // Every blade is an instance of one shared blade, tinted per instance, so
+  // even marathon mazes draw their grass in a single call
+  const createGrass = (scene: THREE.Scene, maze: MazeGrid) => {
+    const blades: { x: number; z: number }[] = [];
+    for (let z = 0; z < maze.length; z++) {
+      for (let x = 0; x < maze[z].length; x++) {
+        if (maze[z][x] !== CellType.Floor) continue;
+
+        const cellWorld = gridToWorld(x, z);
+        const grassCount = Math.random() * 15 + 5;
+        for (let i = 0; i < grassCount; i++) {
+          blades.push({
+            x: cellWorld.x + (Math.random() - 0.5) * WALL_SIZE * 0.8,
+            z: cellWorld.z + (Math.random() - 0.5) * WALL_SIZE * 0.8
+          });
+        }
+      }
+    }
+    if (blades.length === 0) return;
+
+    const grass = new THREE.InstancedMesh(
+      new THREE.CylinderGeometry(0.01, 0.02, 0.3, 3),
+      new THREE.MeshLambertMaterial(),
+      blades.length
+    );
+    grass.name = 'grass';
+
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const rotation = new THREE.Quaternion();
+    const tilt = new THREE.Euler();
+    const scale = new THREE.Vector3();
+    const color = new THREE.Color();
+    blades.forEach((blade, index) => {
+      tilt.set((Math.random() - 0.5) * 0.2, Math.random() * Math.PI * 2, 0);
+      matrix.compose(
+        position.set(blade.x, 0.15, blade.z),
+        rotation.setFromEuler(tilt),
+        scale.set(1, 0.8 + Math.random() * 0.4, 1)
+      );
+      grass.setMatrixAt(index, matrix);
+      grass.setColorAt(index, color.setHSL(0.25 + Math.random() * 0.1, 0.8, 0.4 + Math.random() * 0.2));
+    });
+    grass.castShadow = true;
+
+    scene.add(grass);
+  };
+
+  const createExitMarker = (scene: THREE.Scene) => {
     const exitGeometry = new THREE.CylinderGeometry(0.5, 0.5, 4, 8);
     const exitMaterial = new THREE.MeshLambertMaterial({ 
       color: 0xFF6B6B,
       emissive: 0x442222
     });
     const exitMarker = new THREE.Mesh(exitGeometry, exitMaterial);
+    exitMarker.name = 'exitMarker';
     
-    exitMarker.position.set(
-      (exitPositionRef.current.x - MAZE_SIZE / 2) * WALL_SIZE,
-      2,
-      (exitPositionRef.current.z - MAZE_SIZE / 2) * WALL_SIZE
-    );
+    const exitWorld = gridToWorld(exitPositionRef.current.x, exitPositionRef.current.z);
+    exitMarker.position.set(exitWorld.x, floorElevation(exitPositionRef.current.floor) + 2, exitWorld.z);
     
-    if (settings.enableShadows) {
-      exitMarker.castShadow = true;
-    }
+    exitMarker.castShadow = true;
     
     scene.add(exitMarker);
 
@@ -1070,11 +2075,20 @@ const MazeGame: React.FC = () => {
     const camera = cameraRef.current;
     const velocity = new THREE.Vector3();
 
+    // Ease to the eye height of the current floor after taking the stairs, and
+    // up and down bridge ramps
+    const eyeHeight = floorElevation(currentFloorRef.current) + eyeHeightAt(camera.position.x, camera.position.z);
+    camera.position.y += (eyeHeight - camera.position.y) * 0.1;
+
+    // Water and similar cells slow the player down
+    const playerCell = cellAt(playerPositionRef.current.x, playerPositionRef.current.z);
+    const speed = MOVE_SPEED * movementSpeed(playerCell);
+
     // Calculate movement direction based on current movement state
-    if (moveStateRef.current.forward) velocity.z -= MOVE_SPEED;
-    if (moveStateRef.current.backward) velocity.z += MOVE_SPEED;
-    if (moveStateRef.current.left) velocity.x -= MOVE_SPEED;
-    if (moveStateRef.current.right) velocity.x += MOVE_SPEED;
+    if (moveStateRef.current.forward) velocity.z -= speed;
+    if (moveStateRef.current.backward) velocity.z += speed;
+    if (moveStateRef.current.left) velocity.x -= speed;
+    if (moveStateRef.current.right) velocity.x += speed;
 
     // Only move if there's actual input
     if (velocity.length() > 0) {
@@ -1082,6 +2096,15 @@ const MazeGame: React.FC = () => {
       velocity.applyQuaternion(camera.quaternion);
       velocity.y = 0; // Keep movement horizontal
 
+      // Bridges can't be turned on: keep going along the deck or the tunnel
+      if (isBridge(playerCell)) {
+        const northSouth = (playerCell === CellType.BridgeNS) === (crossingLevelRef.current === 'deck');
+        if (northSouth) velocity.x = 0;
+        else velocity.z = 0;
+      }
+
+      const moveFrom = camera.position.clone();
+
       // Test X movement independently
       const testPosX = camera.position.clone();
       testPosX.x += velocity.x;
@@ -1096,49 +2119,107 @@ const MazeGame: React.FC = () => {
         camera.position.z = testPosZ.z;
       }
 
+      // Endless mode scores a point per block walked
+      if (chunkedMazeRef.current) {
+        unscoredDistanceRef.current += moveFrom.distanceTo(camera.position) / WALL_SIZE;
+        const blocks = Math.floor(unscoredDistanceRef.current);
+        if (blocks > 0) {
+          unscoredDistanceRef.current -= blocks;
+          setScore(prev => prev + blocks);
+        }
+      }
+
       // Update player position reference
-      playerPositionRef.current = {
-        x: Math.round((camera.position.x + MAZE_SIZE * WALL_SIZE / 2) / WALL_SIZE),
-        z: Math.round((camera.position.z + MAZE_SIZE * WALL_SIZE / 2) / WALL_SIZE)
-      };
+      const previousPos = playerPositionRef.current;
+      playerPositionRef.current = worldToGrid(camera.position.x, camera.position.z);
+
+      // Stepping onto stairs takes the player up or down a floor; arriving on
+      // the matching cell above or below doesn't count as stepping onto it
+      const playerPos = playerPositionRef.current;
+      if (playerPos.x !== previousPos.x || playerPos.z !== previousPos.z) {
+        const cell = cellAt(playerPos.x, playerPos.z);
+
+        // Coming up a ramp puts the player on the deck, anything else in the tunnel
+        if (isBridge(cell)) {
+          const alongDeck = cell === CellType.BridgeNS ? playerPos.z !== previousPos.z : playerPos.x !== previousPos.x;
+          crossingLevelRef.current = alongDeck ? 'deck' : 'tunnel';
+        }
+
+        if (!chunkedMazeRef.current) {
+          playerRouteRef.current[playerRouteRef.current.length - 1]?.push({ x: playerPos.x, y: playerPos.z, floor: currentFloorRef.current });
+        }
+
+        if (cell === CellType.StairsUp || cell === CellType.StairsDown) {
+          const floor = currentFloorRef.current + (cell === CellType.StairsUp ? 1 : -1);
+          changeFloor(floor);
+          playerRouteRef.current.push([{ x: playerPos.x, y: playerPos.z, floor }]);
+          toast.info(`Floor ${floor + 1} of ${floorsRef.current.length}`);
+        }
+      }
 
       console.log('Player moved to:', playerPositionRef.current);
     }
   };
 
-  const checkWallCollision = (position: THREE.Vector3): boolean => {
-    // Convert world position to maze coordinates
-    const mazeX = (position.x + MAZE_SIZE * WALL_SIZE / 2) / WALL_SIZE;
-    const mazeZ = (position.z + MAZE_SIZE * WALL_SIZE / 2) / WALL_SIZE;
-
-    // Check boundaries with margin
-    if (mazeX < 0.5 || mazeX >= MAZE_SIZE - 0.5 || 
-        mazeZ < 0.5 || mazeZ >= MAZE_SIZE - 0.5) {
-      return true;
+  // Eye height above the floor at a world position: raised on bridge decks and
+  // their ramps, crouched in the tunnels underneath
+  const eyeHeightAt = (worldX: number, worldZ: number) => {
+    const cell = worldToGrid(worldX, worldZ);
+    const here = cellAt(cell.x, cell.z);
+
+    if (isBridge(here)) {
+      return crossingLevelRef.current === 'deck' ? DECK_HEIGHT + EYE_HEIGHT : TUNNEL_EYE_HEIGHT;
     }
 
-    // Check for wall collision in a small radius around player
-    const gridX = Math.floor(mazeX);
-    const gridZ = Math.floor(mazeZ);
-    
-    // Only check the immediate grid cell
-    if (gridX >= 0 && gridX < MAZE_SIZE && gridZ >= 0 && gridZ < MAZE_SIZE) {
-      return mazeRef.current[gridZ][gridX] === 1;
+    let height = EYE_HEIGHT;
+    const neighbors = [
+      { dx: 0, dz: -1 },
+      { dx: 0, dz: 1 },
+      { dx: -1, dz: 0 },
+      { dx: 1, dz: 0 }
+    ];
+    for (const { dx, dz } of neighbors) {
+      const neighbor = cellAt(cell.x + dx, cell.z + dz);
+      if (!isBridge(neighbor)) continue;
+
+      const deckAlongZ = neighbor === CellType.BridgeNS;
+      if (deckAlongZ === (dz !== 0)) {
+        // Ramp: rises from the far edge of this cell to the deck
+        const centre = gridToWorld(cell.x + dx, cell.z + dz);
+        const distance = dz !== 0 ? Math.abs(worldZ - centre.z) : Math.abs(worldX - centre.x);
+        const rise = Math.min(1, Math.max(0, (1.5 * WALL_SIZE - distance) / WALL_SIZE));
+        height = Math.max(height, EYE_HEIGHT + DECK_HEIGHT * rise);
+      } else {
+        // Tunnel mouth: duck before walking under the deck
+        height = Math.min(height, TUNNEL_EYE_HEIGHT);
+      }
     }
 
-    return false;
+    return height;
+  };
+
+  const checkWallCollision = (position: THREE.Vector3): boolean => {
+    // Thin walls of hex and circular mazes
+    if (topologyMazeRef.current) {
+      return topologyMazeRef.current.collides({ x: position.x, z: position.z }, COLLISION_RADIUS + THIN_WALL_THICKNESS / 2);
+    }
+
+    // Block mazes, bounded or endless: the cell underneath, where anything
+    // outside the grid counts as wall
+    const cell = worldToGrid(position.x, position.z);
+    return isSolid(cellAt(cell.x, cell.z));
   };
 
   const checkWinCondition = () => {
+    // Endless mazes have no exit
+    if (chunkedMazeRef.current) return;
+
     const playerPos = playerPositionRef.current;
     const exitPos = exitPositionRef.current;
     
-    const distance = Math.sqrt(
-      Math.pow(playerPos.x - exitPos.x, 2) + 
-      Math.pow(playerPos.z - exitPos.z, 2)
-    );
+    const distance = cellDistance(playerPos, exitPos);
 
-    if (distance < 1.5 && !gameWon) {
+    if (distance < 1.5 && currentFloorRef.current === (exitPos.floor ?? 0) && !gameWon) {
       setGameWon(true);
       const finalScore = score + (lives * 50);
       setScore(finalScore);
@@ -1162,25 +2243,32 @@ const MazeGame: React.FC = () => {
     setGameOver(false);
     setLives(3);
     setScore(0);
-    setCurrentCheckpoint({ x: 1, z: 1 });
+    unscoredDistanceRef.current = 0;
+    setCurrentCheckpoint({ ...startPositionRef.current });
     setIsRespawning(false);
+    clearHint();
+    lastHazardRef.current = 0;
     
     // Reset movement state and keys
     moveStateRef.current = { forward: false, backward: false, left: false, right: false };
     keysRef.current.clear();
     
     if (cameraRef.current) {
-      cameraRef.current.position.set(WALL_SIZE, 1.6, WALL_SIZE);
-      playerPositionRef.current = { x: 1, z: 1 };
+      const start = startPositionRef.current;
+      const startWorld = gridToWorld(start.x, start.z);
+      changeFloor(0);
+      cameraRef.current.position.set(startWorld.x, EYE_HEIGHT, startWorld.z);
+      playerPositionRef.current = { x: start.x, z: start.z };
+      playerRouteRef.current = [[{ x: start.x, y: start.z, floor: 0 }]];
     }
     
     checkpointsRef.current.forEach(checkpoint => {
       checkpoint.activated = false;
-      checkpoint.mesh.material = new THREE.MeshLambertMaterial({ 
-        color: 0x00ff00,
-        emissive: 0x004400
-      });
+      checkpoint.mesh.material = materialsRef.current.get('checkpoint');
     });
+    if (checkpointsRef.current.length > 0) {
+      setDoorsLocked(true);
+    }
     
     toast.success("Game reset! Movement should now work properly!");
   };
@@ -1200,6 +2288,201 @@ const MazeGame: React.FC = () => {
     toast.success(`Weather set to ${weatherType}`);
   };
 
+  const handleAlgorithmChange = (algorithmId: MazeAlgorithmId) => {
+    setAlgorithm(algorithmId);
+    toast.success(`Maze style set to ${MAZE_ALGORITHMS[algorithmId].name}`);
+  };
+
+  const handleCopyShareCode = () => {
+    if (!levelRef.current) {
+      toast.error("Only square classic mazes can be shared");
+      return;
+    }
+
+    encodeShareCode(levelRef.current)
+      .then(code => navigator.clipboard.writeText(code))
+      .then(() => toast.success("Level code copied to the clipboard"))
+      .catch(() => toast.error("Could not copy the level code"));
+  };
+
+  // Play the level from a pasted share code, in the environment it was shared in
+  const handleLoadShareCode = () => {
+    decodeShareCode(shareCodeInput)
+      .then(level => {
+        setSharedLevel(level);
+        setTimeOfDay(level.environment.timeOfDay);
+        setWeather(level.environment.weather);
+        setShareCodeInput('');
+        toast.success(`Loaded a shared ${level.floors[0][0].length}x${level.floors[0].length} level`);
+      })
+      .catch((error: Error) => toast.error(error.message));
+  };
+
+  const handleClearSharedLevel = () => {
+    setSharedLevel(null);
+    toast.success("Back to generated mazes");
+  };
+
+  // Shortest route across one floor: from where the player arrives on it (the
+  // start, or the stairs from below) to the exit or the stairs up
+  const findFloorSolution = (floor: number): GridPosition[] | null => {
+    if (topologyMazeRef.current) {
+      const start = startPositionRef.current;
+      const exit = exitPositionRef.current;
+      return topologyMazeRef.current.findPath({ x: start.x, y: start.z }, { x: exit.x, y: exit.z });
+    }
+
+    const exitPos = exitPositionRef.current;
+    const entries = floor === 0
+      ? [{ x: startPositionRef.current.x, y: startPositionRef.current.z }]
+      : connectionsRef.current.filter(connection => connection.floor === floor - 1);
+    const goals = floor === (exitPos.floor ?? 0)
+      ? [{ x: exitPos.x, y: exitPos.z }]
+      : connectionsRef.current.filter(connection => connection.floor === floor);
+
+    const solver = new MazeSolver(floorsRef.current[floor]);
+    let solution: GridPosition[] | null = null;
+    for (const entry of entries) {
+      for (const goal of goals) {
+        const route = solver.findPath({ x: entry.x, y: entry.y }, { x: goal.x, y: goal.y });
+        if (route && (!solution || route.length < solution.length)) solution = route;
+      }
+    }
+    return solution;
+  };
+
+  // Save the floor the player is on as a printable map
+  const handleExportMap = (format: 'svg' | 'png') => {
+    if (chunkedMazeRef.current) {
+      toast.error("Endless mazes have no map to export");
+      return;
+    }
+
+    const floor = currentFloorRef.current;
+    const overlay = MAP_OVERLAYS[mapOverlay];
+    const options = {
+      solution: overlay.solution ? findFloorSolution(floor) : null,
+      route: overlay.route ? playerRouteRef.current.filter(segment => segment[0]?.floor === floor) : []
+    };
+    const svg = topologyMazeRef.current
+      ? renderTopologySvg(topologyMazeRef.current, mazeRef.current, options)
+      : renderMazeSvg(mazeRef.current, options);
+    const filename = floorsRef.current.length > 1 ? `maze-${seed}-floor-${floor + 1}` : `maze-${seed}`;
+
+    if (format === 'svg') {
+      downloadFile(new Blob([svg], { type: 'image/svg+xml' }), `${filename}.svg`);
+      toast.success("Map saved as SVG");
+      return;
+    }
+
+    svgToPng(svg)
+      .then(blob => {
+        downloadFile(blob, `${filename}.png`);
+        toast.success("Map saved as PNG");
+      })
+      .catch((error: Error) => toast.error(error.message));
+  };
+
+  // Save the level geometry for Blender and other engines
+  const handleExportScene = (format: SceneExportFormat) => {
+    const scene = sceneRef.current;
+    if (!scene || chunkedMazeRef.current) {
+      toast.error("Endless mazes have no fixed scene to export");
+      return;
+    }
+
+    const exportScene = buildExportScene({
+      ground: [scene.getObjectByName('ground')].filter(Boolean),
+      floors: scene.children.filter(child => child.name === 'floorSlab'),
+      // Copies are taken one object deep, so stairs are listed step by step
+      stairs: scene.children.filter(child => child.name === 'floorConnection').flatMap(group => group.children),
+      walls: wallsRef.current,
+      checkpoints: checkpointsRef.current.map(checkpoint => checkpoint.mesh),
+      exit: [scene.getObjectByName('exitMarker')].filter(Boolean)
+    });
+
+    if (format === 'obj') {
+      downloadFile(exportObj(exportScene), `maze-${seed}.obj`);
+      toast.success("Scene saved as OBJ");
+      return;
+    }
+
+    exportGltf(exportScene)
+      .then(blob => {
+        downloadFile(blob, `maze-${seed}.glb`);
+        toast.success("Scene saved as glTF");
+      })
+      .catch(() => toast.error("Could not export the scene"));
+  };
+
+  const handleMapOverlayChange = (overlay: MapOverlay) => {
+    setMapOverlay(overlay);
+  };
+
+  const handleGameModeChange = (mode: GameMode) => {
+    setGameMode(mode);
+    toast.success(`Game mode set to ${GAME_MODES[mode].label}`);
+  };
+
+  const handleTopologyChange = (id: TopologyId) => {
+    setTopologyId(id);
+    toast.success(`Grid set to ${MAZE_TOPOLOGIES[id].label}`);
+  };
+
+  const handleMazeSizeChange = (size: MazeSizeId) => {
+    setMazeSize(size);
+    toast.success(`Maze size set to ${MAZE_SIZES[size].label}`);
+  };
+
+  const handleExitPlacementChange = (placement: ExitPlacement) => {
+    setExitPlacement(placement);
+    toast.success(placement === 'farthest' ? 'Exit moved to the farthest point' : 'Exit moved to the far corner');
+  };
+
+  const handleLoopLevelChange = (level: LoopLevel) => {
+    setLoopLevel(level);
+    toast.success(`Maze loops set to ${LOOP_LEVELS[level].label}`);
+  };
+
+  const handleWeaveLevelChange = (level: WeaveLevel) => {
+    setWeaveLevel(level);
+    toast.success(`Maze bridges set to ${WEAVE_LEVELS[level].label}`);
+  };
+
+  const handleHazardLevelChange = (level: HazardLevel) => {
+    setHazardLevel(level);
+    toast.success(`Hazards set to ${HAZARD_LEVELS[level].label}`);
+  };
+
+  const handleShapeChange = (shapeId: MazeShapeId) => {
+    setShape(shapeId);
+    toast.success(`Maze shape set to ${MAZE_SHAPES[shapeId].label.replace('...', '')}`);
+  };
+
+  const handleShapeTextChange = (text: string) => {
+    if (text.trim() && text !== shapeText) {
+      setShapeText(text);
+    }
+  };
+
+  const handleShapeImageChange = (file: File | undefined) => {
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    loadImageMask(url, IMAGE_MASK_RESOLUTION, IMAGE_MASK_RESOLUTION)
+      .then(mask => {
+        setImageMask(mask);
+        toast.success(`Maze shaped like ${file.name}`);
+      })
+      .catch(() => toast.error(`Could not read ${file.name} as an image`))
+      .finally(() => URL.revokeObjectURL(url));
+  };
+
+  const handleFloorLevelChange = (level: FloorLevel) => {
+    setFloorLevel(level);
+    toast.success(`Maze floors set to ${FLOOR_LEVELS[level].label}`);
+  };
+
   const getWeatherIcon = (weatherType: WeatherType) => {
     switch (weatherType) {
       case 'sunny': return <Sun size={16} />;
@@ -1209,6 +2492,61 @@ const MazeGame: React.FC = () => {
     }
   };
 
+  const renderExportControls = () => (
+    <div className="mb-4 text-left space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-2">Export Map:</label>
+        <div className="flex gap-2">
+          <Select value={mapOverlay} onValueChange={handleMapOverlayChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MAP_OVERLAYS) as MapOverlay[]).map(overlay => (
+                <SelectItem key={overlay} value={overlay}>
+                  {MAP_OVERLAYS[overlay].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <button
+            onClick={() => handleExportMap('svg')}
+            className="bg-gray-700 hover:bg-gray-800 text-white px-4 rounded-lg font-semibold"
+          >
+            SVG
+          </button>
+          <button
+            onClick={() => handleExportMap('png')}
+            className="bg-gray-700 hover:bg-gray-800 text-white px-4 rounded-lg font-semibold"
+          >
+            PNG
+          </button>
+        </div>
+        {FLOOR_COUNT > 1 && (
+          <p className="mt-1 text-xs text-gray-500">Exports the floor you are on.</p>
+        )}
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-2">Export 3D Scene:</label>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleExportScene('glb')}
+            className="flex-1 bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg font-semibold"
+          >
+            glTF
+          </button>
+          <button
+            onClick={() => handleExportScene('obj')}
+            className="flex-1 bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg font-semibold"
+          >
+            OBJ
+          </button>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">Walls, ground, checkpoints and the exit marker.</p>
+      </div>
+    </div>
+  );
+
   return (
     <div className="relative w-full h-screen">
       <div ref={mountRef} className="w-full h-full" />
@@ -1224,9 +2562,23 @@ const MazeGame: React.FC = () => {
           </div>
           <p>Find the red exit marker!</p>
           <p className="text-sm">Use WASD or Arrow keys to move</p>
+          <p className="text-sm">Press H for a hint (-{HINT_COST} points)</p>
           <p className="text-sm">Press ESC to unlock mouse</p>
           <div className="text-xs mt-1 space-y-1">
+            <p>Seed: {seed}</p>
+            {IS_ENDLESS
+              ? <p>Maze: {MAZE_ALGORITHMS[algorithm].name} (endless)</p>
+              : <p>Maze: {MAZE_ALGORITHMS[algorithm].name} ({MAZE_WIDTH}x{MAZE_HEIGHT})</p>}
+            {!IS_SQUARE && <p>Grid: {MAZE_TOPOLOGIES[topologyId].label}</p>}
+            {FLOOR_COUNT > 1 && <p>Floor: {currentFloor + 1} / {FLOOR_COUNT}</p>}
+            {mazeStats && <p className="capitalize">Difficulty: {mazeStats.tier}</p>}
             <p>Quality: {graphicsQuality}</p>
+            {renderStats && (
+              <>
+                <p>Draw calls: {renderStats.drawCalls} (walls {renderStats.wallCalls}, {renderStats.unbatchedWallCalls} unbatched)</p>
+                <p>GPU memory: {renderStats.geometries} geometries, {renderStats.textures} textures</p>
+              </>
+            )}
             <div className="flex items-center gap-1">
               <span>Time: {timeOfDay}</span>
             </div>
@@ -1325,7 +2677,7 @@ const MazeGame: React.FC = () => {
 
       {!isLocked && !gameWon && !gameOver && (
         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
-          <div className="bg-white p-8 rounded-lg text-center max-w-md">
+          <div className="bg-white p-8 rounded-lg text-center max-w-md max-h-[90vh] overflow-y-auto">
             <h2 className="text-2xl font-bold mb-4">Enhanced 3D Maze Survival</h2>
             <p className="mb-4">Navigate through the maze, avoid enemies, collect checkpoints, and reach the red exit marker!</p>
             <p className="mb-4 text-sm text-gray-600">
@@ -1335,7 +2687,250 @@ const MazeGame: React.FC = () => {
               <Heart className="text-red-500" size={20} />
               <span className="font-bold">3 Lives • Score System</span>
             </div>
+            <p className="mb-4 text-xs text-gray-500">Maze seed: {seed}</p>
+            {hasStarted && !IS_ENDLESS && renderExportControls()}
+            <div className="mb-4">
+              <label className="block text-sm font-medium mb-2">Level Code:</label>
+              {sharedLevel ? (
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span>Playing a shared {MAZE_WIDTH}x{MAZE_HEIGHT} level</span>
+                  <button onClick={handleClearSharedLevel} className="text-blue-600 hover:underline">
+                    Use generated mazes
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    value={shareCodeInput}
+                    placeholder="Paste a level code"
+                    onChange={event => setShareCodeInput(event.target.value)}
+                    onKeyDown={event => {
+                      if (event.key === 'Enter' && shareCodeInput.trim()) handleLoadShareCode();
+                    }}
+                  />
+                  <button
+                    onClick={handleLoadShareCode}
+                    disabled={!shareCodeInput.trim()}
+                    className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white px-4 rounded-lg font-semibold"
+                  >
+                    Play
+                  </button>
+                </div>
+              )}
+              <Link to="/editor" className="mt-1 inline-block text-xs text-blue-600 hover:underline">
+                Build your own level in the editor
+              </Link>
+            </div>
             <div className="mb-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Game Mode:</label>
+                <Select value={gameMode} onValueChange={handleGameModeChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(GAME_MODES) as GameMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>
+                        {GAME_MODES[mode].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="mt-1 text-xs text-gray-500">{GAME_MODES[gameMode].description}</p>
+                {IS_ENDLESS && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Only the maze style and loops apply to endless mazes.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Maze Style:</label>
+                <Select value={algorithm} onValueChange={handleAlgorithmChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(MAZE_ALGORITHMS).map(option => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="mt-1 text-xs text-gray-500">{MAZE_ALGORITHMS[algorithm].description}</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Maze Size:</label>
+                <Select value={mazeSize} onValueChange={handleMazeSizeChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MAZE_SIZES) as MazeSizeId[]).map(size => (
+                      <SelectItem key={size} value={size}>
+                        {MAZE_SIZES[size].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Grid:</label>
+                <Select value={topologyId} onValueChange={handleTopologyChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MAZE_TOPOLOGIES) as TopologyId[]).map(id => (
+                      <SelectItem key={id} value={id}>
+                        {MAZE_TOPOLOGIES[id].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!IS_SQUARE && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Shapes, bridges, floors and hazards only apply to square grids.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Maze Shape:</label>
+                <Select value={shape} onValueChange={handleShapeChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MAZE_SHAPES) as MazeShapeId[]).map(shapeId => (
+                      <SelectItem key={shapeId} value={shapeId}>
+                        {MAZE_SHAPES[shapeId].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {shape === 'text' && (
+                  <Input
+                    className="mt-2"
+                    defaultValue={shapeText}
+                    maxLength={12}
+                    placeholder="Text to shape the maze like"
+                    onBlur={event => handleShapeTextChange(event.target.value)}
+                    onKeyDown={event => {
+                      if (event.key === 'Enter') handleShapeTextChange(event.currentTarget.value);
+                    }}
+                  />
+                )}
+                {shape === 'image' && (
+                  <>
+                    <Input
+                      className="mt-2"
+                      type="file"
+                      accept="image/png,image/*"
+                      onChange={event => handleShapeImageChange(event.target.files?.[0])}
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Transparent PNGs use their opaque pixels, other images their dark pixels.
+                    </p>
+                  </>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Exit Placement:</label>
+                <Select value={exitPlacement} onValueChange={handleExitPlacementChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="corner">Far Corner</SelectItem>
+                    <SelectItem value="farthest">Farthest Point (Longest Route)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Loops:</label>
+                <Select value={loopLevel} onValueChange={handleLoopLevelChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(LOOP_LEVELS) as LoopLevel[]).map(level => (
+                      <SelectItem key={level} value={level}>
+                        {LOOP_LEVELS[level].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Bridges:</label>
+                <Select value={weaveLevel} onValueChange={handleWeaveLevelChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(WEAVE_LEVELS) as WeaveLevel[]).map(level => (
+                      <SelectItem key={level} value={level}>
+                        {WEAVE_LEVELS[level].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {weaveLevel !== 'none' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Corridors cross over and under each other; you can't turn on a bridge.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Floors:</label>
+                <Select value={floorLevel} onValueChange={handleFloorLevelChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FLOOR_LEVELS) as FloorLevel[]).map(level => (
+                      <SelectItem key={level} value={level}>
+                        {FLOOR_LEVELS[level].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {floorLevel !== 'single' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Take the stairs, ramps and ladders up; the exit is on the top floor.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Hazards:</label>
+                <Select value={hazardLevel} onValueChange={handleHazardLevelChange}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(HAZARD_LEVELS) as HazardLevel[]).map(level => (
+                      <SelectItem key={level} value={level}>
+                        {HAZARD_LEVELS[level].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {hazardLevel !== 'none' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Water slows you down, pits cost a life, traps cost points. Gold doors open once every checkpoint is active.
+                  </p>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium mb-2">Graphics Quality:</label>
                 <Select value={graphicsQuality} onValueChange={handleGraphicsChange}>
@@ -1415,13 +3010,38 @@ const MazeGame: React.FC = () => {
           <div className="bg-white p-8 rounded-lg text-center">
             <h2 className="text-3xl font-bold mb-4 text-green-600">Victory!</h2>
             <p className="mb-4">Congratulations on surviving the maze and reaching the exit!</p>
-            <p className="mb-6 text-xl font-bold text-blue-600">Final Score: {score}</p>
-            <button
-              onClick={resetGame}
-              className="bg-green-500 hover:bg-green-600 text-white px-6 py-3 rounded-lg font-semibold"
-            >
-              Play Again
-            </button>
+            <p className="mb-4 text-xl font-bold text-blue-600">Final Score: {score}</p>
+            {mazeStats && (
+              <div className="mb-6 grid grid-cols-2 gap-x-6 gap-y-1 text-sm text-left text-gray-700">
+                <span>Shortest route:</span>
+                <span className="font-semibold">{mazeStats.solutionLength} steps</span>
+                <span>Dead ends:</span>
+                <span className="font-semibold">{mazeStats.deadEnds}</span>
+                <span>Junctions:</span>
+                <span className="font-semibold">{mazeStats.junctions}</span>
+                <span>Avg. corridor:</span>
+                <span className="font-semibold">{mazeStats.averageCorridorLength.toFixed(1)} steps</span>
+                <span>Difficulty:</span>
+                <span className="font-semibold capitalize">{mazeStats.difficulty} ({mazeStats.tier})</span>
+              </div>
+            )}
+            {renderExportControls()}
+            <div className="flex justify-center gap-2">
+              <button
+                onClick={resetGame}
+                className="bg-green-500 hover:bg-green-600 text-white px-6 py-3 rounded-lg font-semibold"
+              >
+                Play Again
+              </button>
+              {levelRef.current && (
+                <button
+                  onClick={handleCopyShareCode}
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold"
+                >
+                  Copy Level Code
+                </button>
+              )}
+            </div>
           </div>
         </div>
       )}
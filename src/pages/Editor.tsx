@@ -0,0 +1,7 @@
+import MazeEditor from "@/components/MazeEditor";
+
+const Editor = () => {
+  return <MazeEditor />;
+};
+
+export default Editor;
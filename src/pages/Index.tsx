@@ -1,10 +1,18 @@
-
+import { useLocation, useSearchParams } from "react-router-dom";
 import MazeGame from "@/components/MazeGame";
+import { MazeLevel } from "@/utils/mazeLevel";
+import { parseSeed } from "@/utils/random";
 
 const Index = () => {
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const seed = parseSeed(searchParams.get("seed"));
+  // Set by the level editor's "Play this level"
+  const level = (location.state as { level?: MazeLevel } | null)?.level ?? null;
+
   return (
     <div className="w-full h-screen">
-      <MazeGame />
+      <MazeGame seed={seed} level={level} />
     </div>
   );
 };
@@ -0,0 +1,100 @@
+import { isWalkable, MazeGrid } from './mazeCells';
+import { MazeLevel } from './mazeLevel';
+import { floodFill, GridPosition } from './mazePaths';
+
+// Same as the game's spawn rule for generated enemies, in cells
+export const MIN_ENEMY_SPAWN_DISTANCE = 8;
+
+// Errors make a level unplayable or unfair; warnings are worth a second look
+export interface LevelIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  position?: GridPosition;
+}
+
+const describe = ({ x, y }: GridPosition) => `(${x}, ${y})`;
+
+// Step distances from the start on every floor. Upper floors are flooded from
+// the first stairs up that are reachable on the floor below.
+function reachability(level: MazeLevel): number[][][] {
+  const distances: number[][][] = [];
+  level.floors.forEach((grid, floor) => {
+    const entry = floor === 0
+      ? level.start
+      : level.connections.find(connection => connection.floor === floor - 1 && distances[floor - 1][connection.y]?.[connection.x] >= 0);
+    distances.push(entry ? floodFill(grid, entry) : grid.map(row => row.map(() => -1)));
+  });
+  return distances;
+}
+
+// Enemies walk straight from waypoint to waypoint; sample the line finely
+// enough that it can't slip past the corner of a wall cell
+function legIsOpen(grid: MazeGrid, from: GridPosition, to: GridPosition): boolean {
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) * 4));
+  for (let step = 0; step <= steps; step++) {
+    const t = step / steps;
+    const x = Math.round(from.x + (to.x - from.x) * t);
+    const y = Math.round(from.y + (to.y - from.y) * t);
+    if (!isWalkable(grid[y]?.[x])) return false;
+  }
+  return true;
+}
+
+// Gameplay checks on top of the structural ones in parseLevel: can the exit
+// and every checkpoint be reached, and do enemies keep their distance
+export function validateLevel(level: MazeLevel): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+  const distances = reachability(level);
+  const isReachable = (position: GridPosition) => distances[position.floor ?? 0]?.[position.y]?.[position.x] >= 0;
+
+  if (!isReachable(level.exit)) {
+    issues.push({ severity: 'error', message: `The exit at ${describe(level.exit)} can't be reached from the start`, position: level.exit });
+  }
+
+  level.checkpoints.forEach(checkpoint => {
+    if (!isReachable(checkpoint)) {
+      issues.push({ severity: 'error', message: `Checkpoint at ${describe(checkpoint)} can't be reached`, position: checkpoint });
+    }
+  });
+
+  level.enemies.forEach(enemy => {
+    const floor = enemy.floor ?? 0;
+    const grid = level.floors[floor];
+
+    if (!isWalkable(grid[enemy.y]?.[enemy.x])) {
+      issues.push({ severity: 'error', message: `Enemy at ${describe(enemy)} stands in a wall`, position: enemy });
+      return;
+    }
+
+    const startDistance = Math.hypot(enemy.x - level.start.x, enemy.y - level.start.y);
+    if (floor === 0 && startDistance < MIN_ENEMY_SPAWN_DISTANCE) {
+      issues.push({
+        severity: 'error',
+        message: `Enemy at ${describe(enemy)} is ${startDistance.toFixed(1)} cells from the start, at least ${MIN_ENEMY_SPAWN_DISTANCE} are needed`,
+        position: enemy
+      });
+    }
+
+    if (!isReachable(enemy)) {
+      issues.push({ severity: 'warning', message: `Enemy at ${describe(enemy)} can never reach the player`, position: enemy });
+    }
+
+    // The patrol loops back to the spawn point after the last waypoint; with a
+    // single waypoint that is the same leg walked back
+    const route = [enemy, ...(enemy.patrol ?? [])];
+    const legs = route.length > 2 ? route.length : route.length - 1;
+    for (let index = 0; index < legs; index++) {
+      const from = route[index];
+      const to = route[(index + 1) % route.length];
+      if (!legIsOpen(grid, from, to)) {
+        issues.push({
+          severity: 'error',
+          message: `Patrol of the enemy at ${describe(enemy)} walks through a wall between ${describe(from)} and ${describe(to)}`,
+          position: to
+        });
+      }
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,29 @@
+import * as THREE from 'three';
+
+// One shared Lambert material per palette entry, created on first use. Meshes
+// in the same state share a material and a change of state swaps materials
+// instead of allocating new ones.
+export class MaterialCache<Name extends string> {
+  private palette: Record<Name, THREE.MeshLambertMaterialParameters>;
+  private materials = new Map<Name, THREE.MeshLambertMaterial>();
+
+  constructor(palette: Record<Name, THREE.MeshLambertMaterialParameters>) {
+    this.palette = palette;
+  }
+
+  get(name: Name): THREE.MeshLambertMaterial {
+    let material = this.materials.get(name);
+    if (!material) {
+      material = new THREE.MeshLambertMaterial(this.palette[name]);
+      // Outlives the meshes using it; see ResourceRegistry
+      material.userData.shared = true;
+      this.materials.set(name, material);
+    }
+    return material;
+  }
+
+  dispose() {
+    this.materials.forEach(material => material.dispose());
+    this.materials.clear();
+  }
+}
@@ -0,0 +1,666 @@
+import { CellType, MazeGrid } from './mazeCells';
+import { connectMask, countMaskCells, fitMask, MazeMask } from './mazeMask';
+import { RandomSource } from './random';
+
+export type MazeAlgorithmId =
+  | 'backtracker'
+  | 'prim'
+  | 'kruskal'
+  | 'wilson'
+  | 'eller'
+  | 'hunt-and-kill'
+  | 'sidewinder'
+  | 'growing-tree'
+  | 'dungeon';
+
+export interface MazeCell {
+  column: number;
+  row: number;
+}
+
+// Rectangle of cells, in cell units like MazeCell
+export interface MazeRoom {
+  column: number;
+  row: number;
+  width: number;
+  height: number;
+}
+
+export interface MazeAlgorithm {
+  id: MazeAlgorithmId;
+  name: string;
+  description: string;
+  carve(grid: CellGrid, random: RandomSource): void;
+}
+
+// North, East, South, West in cell units
+const DIRECTIONS = [
+  [0, -1],
+  [1, 0],
+  [0, 1],
+  [-1, 0]
+];
+
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// Carving surface over the raw grid: cells live on odd grid coordinates and
+// the walls between two neighbouring cells sit on the even coordinate between them.
+// With a mask, cells outside the shape behave as if they did not exist.
+export class CellGrid {
+  readonly columns: number;
+  readonly rows: number;
+  private maze: MazeGrid;
+  private mask: MazeMask | null;
+  private maskSize: number;
+  private regions: number[] | null = null;
+
+  constructor(maze: MazeGrid, mask?: MazeMask) {
+    this.maze = maze;
+    this.columns = Math.max(0, Math.floor((maze[0].length - 1) / 2));
+    this.rows = Math.max(0, Math.floor((maze.length - 1) / 2));
+    // Blobs of the shape are joined up front, so every algorithm carves one maze
+    this.mask = mask ? connectMask(fitMask(mask, this.columns, this.rows)) : null;
+    this.maskSize = this.mask ? countMaskCells(this.mask) : 0;
+  }
+
+  get size(): number {
+    return this.mask ? this.maskSize : this.columns * this.rows;
+  }
+
+  contains(column: number, row: number): boolean {
+    return column >= 0 && column < this.columns && row >= 0 && row < this.rows &&
+      (!this.mask || this.mask[row][column]);
+  }
+
+  cells(): MazeCell[] {
+    const cells: MazeCell[] = [];
+    for (let row = 0; row < this.rows; row++) {
+      for (let column = 0; column < this.columns; column++) {
+        if (this.contains(column, row)) cells.push({ column, row });
+      }
+    }
+    return cells;
+  }
+
+  randomCell(random: RandomSource): MazeCell {
+    if (this.mask) return pick(this.cells(), random);
+
+    return {
+      column: Math.floor(random() * this.columns),
+      row: Math.floor(random() * this.rows)
+    };
+  }
+
+  // Grid position (x, y) borders a cell inside the shape; everything else is
+  // outside the maze altogether
+  touchesShape(x: number, y: number): boolean {
+    for (let row = Math.ceil((y - 2) / 2); row <= Math.floor(y / 2); row++) {
+      for (let column = Math.ceil((x - 2) / 2); column <= Math.floor(x / 2); column++) {
+        if (this.contains(column, row)) return true;
+      }
+    }
+    return false;
+  }
+
+  // Id of the connected part of the shape a cell belongs to; shapes made of
+  // separate blobs need one maze per blob
+  region(cell: MazeCell): number {
+    if (!this.regions) {
+      const regions = Array(this.columns * this.rows).fill(-1);
+      let next = 0;
+      for (const origin of this.cells()) {
+        if (regions[this.key(origin)] !== -1) continue;
+
+        const queue = [origin];
+        regions[this.key(origin)] = next;
+        for (let head = 0; head < queue.length; head++) {
+          for (const neighbor of this.neighbors(queue[head])) {
+            if (regions[this.key(neighbor)] === -1) {
+              regions[this.key(neighbor)] = next;
+              queue.push(neighbor);
+            }
+          }
+        }
+        next++;
+      }
+      this.regions = regions;
+    }
+
+    return this.regions[this.key(cell)];
+  }
+
+  // Unique index of a cell, handy for sets and union-find
+  key(cell: MazeCell): number {
+    return cell.row * this.columns + cell.column;
+  }
+
+  neighbors(cell: MazeCell): MazeCell[] {
+    const neighbors: MazeCell[] = [];
+    for (const [dc, dr] of DIRECTIONS) {
+      if (this.contains(cell.column + dc, cell.row + dr)) {
+        neighbors.push({ column: cell.column + dc, row: cell.row + dr });
+      }
+    }
+    return neighbors;
+  }
+
+  isCarved(cell: MazeCell): boolean {
+    return this.maze[cell.row * 2 + 1][cell.column * 2 + 1] !== CellType.Wall;
+  }
+
+  // Opening an already open cell keeps its type, so corridors don't erase rooms
+  carve(cell: MazeCell): void {
+    if (!this.contains(cell.column, cell.row)) return;
+    this.open(cell.column * 2 + 1, cell.row * 2 + 1);
+  }
+
+  // Open both cells and the wall between them
+  link(a: MazeCell, b: MazeCell): void {
+    if (!this.contains(a.column, a.row) || !this.contains(b.column, b.row)) return;
+    this.carve(a);
+    this.carve(b);
+    this.open(a.column + b.column + 1, a.row + b.row + 1);
+  }
+
+  // Open every cell of the room and the walls inside it as room floor
+  carveRoom(room: MazeRoom): void {
+    for (let y = room.row * 2 + 1; y < (room.row + room.height) * 2; y++) {
+      for (let x = room.column * 2 + 1; x < (room.column + room.width) * 2; x++) {
+        this.maze[y][x] = CellType.Room;
+      }
+    }
+  }
+
+  isLinked(a: MazeCell, b: MazeCell): boolean {
+    return this.isCarved(a) && this.isCarved(b) && this.maze[a.row + b.row + 1][a.column + b.column + 1] !== CellType.Wall;
+  }
+
+  linkedNeighbors(cell: MazeCell): MazeCell[] {
+    return this.neighbors(cell).filter(neighbor => this.isLinked(cell, neighbor));
+  }
+
+  isDeadEnd(cell: MazeCell): boolean {
+    return this.isCarved(cell) && this.linkedNeighbors(cell).length === 1;
+  }
+
+  private open(x: number, y: number): void {
+    if (this.maze[y][x] === CellType.Wall) {
+      this.maze[y][x] = CellType.Floor;
+    }
+  }
+}
+
+const backtracker: MazeAlgorithm = {
+  id: 'backtracker',
+  name: 'Recursive Backtracker',
+  description: 'Long winding corridors with few dead ends',
+  carve(grid, random) {
+    if (grid.size === 0) return;
+
+    // Explicit stack instead of recursion so marathon-sized mazes cannot overflow
+    // the call stack. Directions are shuffled when a cell is first visited, exactly
+    // like the recursive version, so a given seed still produces the same maze.
+    const stack: { cell: MazeCell; directions: number[][]; next: number }[] = [];
+    const visit = (cell: MazeCell) => {
+      grid.carve(cell);
+      stack.push({ cell, directions: shuffle(DIRECTIONS.slice(), random), next: 0 });
+    };
+
+    visit(grid.contains(0, 0) ? { column: 0, row: 0 } : grid.cells()[0]);
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next >= frame.directions.length) {
+        stack.pop();
+        continue;
+      }
+
+      const [dc, dr] = frame.directions[frame.next++];
+      const next = { column: frame.cell.column + dc, row: frame.cell.row + dr };
+      if (grid.contains(next.column, next.row) && !grid.isCarved(next)) {
+        grid.link(frame.cell, next);
+        visit(next);
+      }
+    }
+  }
+};
+
+const prim: MazeAlgorithm = {
+  id: 'prim',
+  name: "Prim's",
+  description: 'Short branching passages radiating from the start',
+  carve(grid, random) {
+    if (grid.size === 0) return;
+
+    const frontier: MazeCell[] = [];
+    const inFrontier = new Set<number>();
+
+    const addFrontier = (cell: MazeCell) => {
+      for (const neighbor of grid.neighbors(cell)) {
+        const key = grid.key(neighbor);
+        if (!grid.isCarved(neighbor) && !inFrontier.has(key)) {
+          inFrontier.add(key);
+          frontier.push(neighbor);
+        }
+      }
+    };
+
+    const start = grid.randomCell(random);
+    grid.carve(start);
+    addFrontier(start);
+
+    while (frontier.length > 0) {
+      // Swap-remove a random frontier cell
+      const index = Math.floor(random() * frontier.length);
+      const cell = frontier[index];
+      frontier[index] = frontier[frontier.length - 1];
+      frontier.pop();
+
+      const carvedNeighbors = grid.neighbors(cell).filter(neighbor => grid.isCarved(neighbor));
+      grid.link(pick(carvedNeighbors, random), cell);
+      addFrontier(cell);
+    }
+  }
+};
+
+const kruskal: MazeAlgorithm = {
+  id: 'kruskal',
+  name: "Kruskal's",
+  description: 'Evenly scattered short dead ends',
+  carve(grid, random) {
+    if (grid.size === 0) return;
+
+    const parent = Array.from({ length: grid.columns * grid.rows }, (_, i) => i);
+    const find = (key: number): number => {
+      while (parent[key] !== key) {
+        parent[key] = parent[parent[key]];
+        key = parent[key];
+      }
+      return key;
+    };
+
+    const edges: [MazeCell, MazeCell][] = [];
+    for (const cell of grid.cells()) {
+      grid.carve(cell);
+      if (grid.contains(cell.column + 1, cell.row)) edges.push([cell, { column: cell.column + 1, row: cell.row }]);
+      if (grid.contains(cell.column, cell.row + 1)) edges.push([cell, { column: cell.column, row: cell.row + 1 }]);
+    }
+
+    for (const [a, b] of shuffle(edges, random)) {
+      const rootA = find(grid.key(a));
+      const rootB = find(grid.key(b));
+      if (rootA !== rootB) {
+        parent[rootA] = rootB;
+        grid.link(a, b);
+      }
+    }
+  }
+};
+
+const wilson: MazeAlgorithm = {
+  id: 'wilson',
+  name: "Wilson's",
+  description: 'Unbiased maze built from loop-erased random walks',
+  carve(grid, random) {
+    if (grid.size === 0) return;
+
+    const remaining = grid.cells();
+    const positions = new Map(remaining.map((cell, index) => [grid.key(cell), index]));
+    const removeRemaining = (cell: MazeCell) => {
+      const index = positions.get(grid.key(cell));
+      if (index === undefined) return;
+
+      // Swap-remove to keep this O(1) on large mazes
+      const last = remaining.pop()!;
+      if (index < remaining.length) {
+        remaining[index] = last;
+        positions.set(grid.key(last), index);
+      }
+      positions.delete(grid.key(cell));
+    };
+
+    const first = pick(remaining, random);
+    grid.carve(first);
+    removeRemaining(first);
+    const rootedRegions = new Set([grid.region(first)]);
+
+    while (remaining.length > 0) {
+      // Random walk from an unvisited cell until it hits the maze, erasing loops
+      let cell = pick(remaining, random);
+
+      // A walk could never reach the maze from a separate part of a shape
+      if (!rootedRegions.has(grid.region(cell))) {
+        rootedRegions.add(grid.region(cell));
+        grid.carve(cell);
+        removeRemaining(cell);
+        continue;
+      }
+
+      const path: MazeCell[] = [cell];
+      const pathIndex = new Map<number, number>([[grid.key(cell), 0]]);
+
+      while (!grid.isCarved(cell)) {
+        cell = pick(grid.neighbors(cell), random);
+        const loopStart = pathIndex.get(grid.key(cell));
+        if (loopStart !== undefined) {
+          for (const erased of path.splice(loopStart + 1)) {
+            pathIndex.delete(grid.key(erased));
+          }
+        } else {
+          pathIndex.set(grid.key(cell), path.length);
+          path.push(cell);
+        }
+      }
+
+      for (let i = 0; i < path.length - 1; i++) {
+        grid.link(path[i], path[i + 1]);
+        removeRemaining(path[i]);
+      }
+    }
+  }
+};
+
+const eller: MazeAlgorithm = {
+  id: 'eller',
+  name: "Eller's",
+  description: 'Row-by-row generation with horizontal streaks',
+  carve(grid, random) {
+    if (grid.size === 0) return;
+
+    let nextSet = 0;
+    let rowSets: number[] = Array(grid.columns).fill(-1);
+
+    for (let row = 0; row < grid.rows; row++) {
+      const isLastRow = row === grid.rows - 1;
+
+      for (let column = 0; column < grid.columns; column++) {
+        if (rowSets[column] === -1) rowSets[column] = nextSet++;
+        grid.carve({ column, row });
+      }
+
+      // Randomly merge neighbouring sets; the last row must merge everything
+      for (let column = 0; column < grid.columns - 1; column++) {
+        const current = rowSets[column];
+        const next = rowSets[column + 1];
+        if (current !== next && (isLastRow || random() < 0.5)) {
+          grid.link({ column, row }, { column: column + 1, row });
+          rowSets = rowSets.map(set => (set === next ? current : set));
+        }
+      }
+
+      if (isLastRow) break;
+
+      // Every set drops at least one passage into the next row
+      const nextRowSets: number[] = Array(grid.columns).fill(-1);
+      const members = new Map<number, number[]>();
+      rowSets.forEach((set, column) => {
+        members.set(set, [...(members.get(set) ?? []), column]);
+      });
+
+      for (const [set, columns] of members) {
+        const dropping = shuffle(columns.slice(), random);
+        const count = 1 + Math.floor(random() * dropping.length);
+        for (const column of dropping.slice(0, count)) {
+          grid.link({ column, row }, { column, row: row + 1 });
+          nextRowSets[column] = set;
+        }
+      }
+
+      rowSets = nextRowSets;
+    }
+  }
+};
+
+const huntAndKill: MazeAlgorithm = {
+  id: 'hunt-and-kill',
+  name: 'Hunt-and-Kill',
+  description: 'Long twisty passages, similar to the backtracker',
+  carve(grid, random) {
+    if (grid.size === 0) return;
+
+    let current: MazeCell | null = grid.randomCell(random);
+    let huntRow = 0;
+    grid.carve(current);
+
+    while (current) {
+      const unvisited = grid.neighbors(current).filter(neighbor => !grid.isCarved(neighbor));
+
+      if (unvisited.length > 0) {
+        const next = pick(unvisited, random);
+        grid.link(current, next);
+        current = next;
+        continue;
+      }
+
+      // Hunt: scan for an unvisited cell bordering the maze, skipping finished rows
+      current = null;
+      for (let row = huntRow; row < grid.rows && !current; row++) {
+        let rowFinished = true;
+
+        for (let column = 0; column < grid.columns; column++) {
+          const cell = { column, row };
+          if (!grid.contains(column, row) || grid.isCarved(cell)) continue;
+          rowFinished = false;
+
+          const visited = grid.neighbors(cell).filter(neighbor => grid.isCarved(neighbor));
+          if (visited.length > 0) {
+            grid.link(pick(visited, random), cell);
+            current = cell;
+            break;
+          }
+        }
+
+        if (rowFinished && row === huntRow) huntRow++;
+      }
+    }
+  }
+};
+
+const sidewinder: MazeAlgorithm = {
+  id: 'sidewinder',
+  name: 'Sidewinder',
+  description: 'Open top corridor with vertical runs hanging from it',
+  carve(grid, random) {
+    if (grid.size === 0) return;
+
+    for (let row = 0; row < grid.rows; row++) {
+      let run: MazeCell[] = [];
+
+      for (let column = 0; column < grid.columns; column++) {
+        const cell = { column, row };
+        grid.carve(cell);
+        run.push(cell);
+
+        const atEasternBoundary = column === grid.columns - 1;
+        const atNorthernBoundary = row === 0;
+        const closeRun = atEasternBoundary || (!atNorthernBoundary && random() < 0.5);
+
+        if (closeRun) {
+          if (!atNorthernBoundary) {
+            const member = pick(run, random);
+            grid.link(member, { column: member.column, row: row - 1 });
+          }
+          run = [];
+        } else {
+          grid.link(cell, { column: column + 1, row });
+        }
+      }
+    }
+  }
+};
+
+const growingTree: MazeAlgorithm = {
+  id: 'growing-tree',
+  name: 'Growing Tree',
+  description: 'Mix of long corridors and bushy branches',
+  carve(grid, random) {
+    if (grid.size === 0) return;
+
+    const start = grid.randomCell(random);
+    grid.carve(start);
+    const active: MazeCell[] = [start];
+
+    while (active.length > 0) {
+      // Half newest (backtracker-like), half random (Prim-like)
+      const index = random() < 0.5 ? active.length - 1 : Math.floor(random() * active.length);
+      const cell = active[index];
+      const unvisited = grid.neighbors(cell).filter(neighbor => !grid.isCarved(neighbor));
+
+      if (unvisited.length > 0) {
+        const next = pick(unvisited, random);
+        grid.link(cell, next);
+        active.push(next);
+      } else {
+        active.splice(index, 1);
+      }
+    }
+  }
+};
+
+// Rooms dropped at random spots (overlaps rejected), then joined by L-shaped
+// corridors along a minimum spanning tree of the room centres
+const dungeon: MazeAlgorithm = {
+  id: 'dungeon',
+  name: 'Rooms & Corridors',
+  description: 'Open rooms for arena fights, joined by corridors',
+  carve(grid, random) {
+    if (grid.size === 0) return;
+
+    const maxSide = Math.max(1, Math.min(5, Math.floor(Math.min(grid.columns, grid.rows) / 3)));
+    const targetRooms = Math.max(2, Math.floor(grid.size / 20));
+    const rooms: MazeRoom[] = [];
+
+    // Rooms keep a one cell gap so their walls stay intact
+    const overlaps = (a: MazeRoom, b: MazeRoom) =>
+      a.column <= b.column + b.width && b.column <= a.column + a.width &&
+      a.row <= b.row + b.height && b.row <= a.row + a.height;
+    const insideShape = (room: MazeRoom) => {
+      for (let row = room.row; row < room.row + room.height; row++) {
+        for (let column = room.column; column < room.column + room.width; column++) {
+          if (!grid.contains(column, row)) return false;
+        }
+      }
+      return true;
+    };
+
+    for (let attempt = 0; attempt < targetRooms * 10 && rooms.length < targetRooms; attempt++) {
+      const width = Math.min(grid.columns, 2 + Math.floor(random() * (maxSide - 1)));
+      const height = Math.min(grid.rows, 2 + Math.floor(random() * (maxSide - 1)));
+      const room = {
+        column: Math.floor(random() * (grid.columns - width + 1)),
+        row: Math.floor(random() * (grid.rows - height + 1)),
+        width,
+        height
+      };
+      if (!rooms.some(other => overlaps(room, other)) && insideShape(room)) rooms.push(room);
+    }
+
+    rooms.forEach(room => grid.carveRoom(room));
+
+    const centre = (room: MazeRoom): MazeCell => ({
+      column: room.column + Math.floor(room.width / 2),
+      row: room.row + Math.floor(room.height / 2)
+    });
+    const distance = (a: MazeCell, b: MazeCell) => Math.abs(a.column - b.column) + Math.abs(a.row - b.row);
+
+    if (rooms.length === 0) return;
+
+    // Prim's algorithm over the complete graph of room centres
+    const centres = rooms.map(centre);
+    const connected = [centres[0]];
+    const remaining = centres.slice(1);
+    while (remaining.length > 0) {
+      let best = { from: connected[0], index: 0, length: Infinity };
+      connected.forEach(from => {
+        remaining.forEach((to, index) => {
+          const length = distance(from, to);
+          if (length < best.length) best = { from, index, length };
+        });
+      });
+
+      const [to] = remaining.splice(best.index, 1);
+      carveCorridor(grid, best.from, to, random);
+      connected.push(to);
+    }
+  }
+};
+
+// Walk from one cell to another, horizontally or vertically first at random.
+// When both L-shaped routes leave a masked shape, take the shortest route
+// through the shape instead.
+function carveCorridor(grid: CellGrid, from: MazeCell, to: MazeCell, random: RandomSource): void {
+  const horizontalFirst = random() < 0.5;
+  const path = [
+    lShapedPath(from, to, horizontalFirst),
+    lShapedPath(from, to, !horizontalFirst)
+  ].find(route => route.every(cell => grid.contains(cell.column, cell.row))) ?? shortestPath(grid, from, to);
+
+  grid.carve(from);
+  for (let i = 0; i < path.length - 1; i++) {
+    grid.link(path[i], path[i + 1]);
+  }
+}
+
+function lShapedPath(from: MazeCell, to: MazeCell, horizontalFirst: boolean): MazeCell[] {
+  const path = [from];
+  let current = from;
+
+  const step = (axis: 'column' | 'row') => {
+    while (current[axis] !== to[axis]) {
+      current = { ...current, [axis]: current[axis] + Math.sign(to[axis] - current[axis]) };
+      path.push(current);
+    }
+  };
+
+  step(horizontalFirst ? 'column' : 'row');
+  step(horizontalFirst ? 'row' : 'column');
+  return path;
+}
+
+// Breadth-first route between two cells, empty when they are not connected
+function shortestPath(grid: CellGrid, from: MazeCell, to: MazeCell): MazeCell[] {
+  const cameFrom = new Map<number, MazeCell | null>([[grid.key(from), null]]);
+  const queue = [from];
+
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head];
+    if (cell.column === to.column && cell.row === to.row) {
+      const path: MazeCell[] = [];
+      for (let step: MazeCell | null = cell; step; step = cameFrom.get(grid.key(step)) ?? null) {
+        path.push(step);
+      }
+      return path.reverse();
+    }
+
+    for (const neighbor of grid.neighbors(cell)) {
+      if (!cameFrom.has(grid.key(neighbor))) {
+        cameFrom.set(grid.key(neighbor), cell);
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return [];
+}
+
+export const MAZE_ALGORITHMS: Record<MazeAlgorithmId, MazeAlgorithm> = {
+  backtracker,
+  prim,
+  kruskal,
+  wilson,
+  eller,
+  'hunt-and-kill': huntAndKill,
+  sidewinder,
+  'growing-tree': growingTree,
+  dungeon
+};
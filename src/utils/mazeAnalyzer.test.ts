@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeLayout, MazeAnalyzer } from './mazeAnalyzer';
+import { parseAsciiMaze } from './mazeAscii';
+import { CellType, isBridge } from './mazeCells';
+import { MazeGenerator } from './mazeGenerator';
+import { createSeededRandom } from './random';
+
+// Analyzer of a hand-drawn maze, run from its S to its E
+function analyzeAscii(lines: string[]) {
+  const maze = parseAsciiMaze(lines.join('\n'));
+  const find = (type: CellType) => {
+    const y = maze.findIndex(row => row.includes(type));
+    return { x: maze[y].indexOf(type), y };
+  };
+  const analyzer = new MazeAnalyzer(maze);
+  return { analyzer, stats: analyzer.analyze(find(CellType.Spawn), find(CellType.Exit)) };
+}
+
+describe('MazeAnalyzer', () => {
+  // One junction at (3, 1), dead ends at the exit, (1, 3) and (5, 3)
+  const branching = [
+    '#######',
+    '#S...E#',
+    '#.#.###',
+    '#.#...#',
+    '#######'
+  ];
+
+  it('measures the route and the shape of the maze', () => {
+    const { stats } = analyzeAscii(branching);
+
+    expect(stats).toMatchObject({
+      solutionLength: 4,
+      openCells: 11,
+      reachableCells: 11,
+      deadEnds: 3,
+      junctions: 1,
+      decisionPoints: 1,
+      branchingFactor: 3
+    });
+    // Corridors of 4, 2 and 4 steps out of the junction, each walked from both ends
+    expect(stats.averageCorridorLength).toBeCloseTo(10 / 3);
+  });
+
+  it('rates difficulty from size, decisions, dead ends and winding', () => {
+    const { analyzer, stats } = analyzeAscii(branching);
+
+    // 11 / 1500 * 0.3 + 1 / 20 * 0.3 + min(1, 3 / 11 * 8) * 0.2, and a straight route
+    expect(stats.difficulty).toBe(22);
+    expect(stats.tier).toBe('easy');
+    expect(analyzer.isDegenerate(stats)).toBe(false);
+  });
+
+  it('steps over bridges and leaves them out of the counts', () => {
+    // The route runs under the bridge; the bridge deck joins (3, 1) and (3, 3)
+    const { stats } = analyzeAscii([
+      '#######',
+      '###.###',
+      '#S.|.E#',
+      '###.###',
+      '#######'
+    ]);
+
+    expect(stats).toMatchObject({
+      solutionLength: 3,
+      openCells: 6,
+      reachableCells: 4,
+      deadEnds: 4,
+      junctions: 0
+    });
+    // S to E in 3 steps and over the deck in 1, from both ends
+    expect(stats.averageCorridorLength).toBe(2);
+  });
+
+  it('calls unreachable and trivially close exits degenerate', () => {
+    const walledOff = analyzeAscii([
+      '#####',
+      '#S#E#',
+      '#####'
+    ]);
+    expect(walledOff.stats.solutionLength).toBe(-1);
+    expect(walledOff.stats.difficulty).toBe(0);
+    expect(walledOff.analyzer.isDegenerate(walledOff.stats)).toBe(true);
+
+    // One step on a maze whose shortest side asks for at least 2.5
+    const adjacent = analyzeAscii([
+      '#######',
+      '#SE...#',
+      '#.###.#',
+      '#.....#',
+      '#######'
+    ]);
+    expect(adjacent.stats.solutionLength).toBe(1);
+    expect(adjacent.analyzer.isDegenerate(adjacent.stats)).toBe(true);
+  });
+});
+
+describe('analyzeLayout', () => {
+  it('counts every cell of a woven perfect maze as reachable', () => {
+    const layout = new MazeGenerator(21, 21, { random: createSeededRandom(3), weave: 1 }).generateLayout();
+    expect(layout.grid.some(row => row.some(isBridge))).toBe(true);
+
+    const { stats } = analyzeLayout(layout);
+    expect(stats.reachableCells).toBe(stats.openCells);
+  });
+
+  it('rates the exit unreachable when a floor below it has no stairs up', () => {
+    const layout = new MazeGenerator(21, 21, { random: createSeededRandom(5), floors: 3 }).generateLayout();
+    expect(analyzeLayout(layout).stats.solutionLength).toBeGreaterThan(0);
+
+    layout.connections = layout.connections.filter(connection => connection.floor !== 0);
+    const { stats } = analyzeLayout(layout);
+    expect(stats.solutionLength).toBe(-1);
+    expect(stats.difficulty).toBe(0);
+  });
+});
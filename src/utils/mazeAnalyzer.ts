@@ -0,0 +1,197 @@
+import { isBridge, MazeGrid } from './mazeCells';
+import { MazeLayout } from './mazeGenerator';
+import { floodFill, gridNeighbors, GridPosition, isOpenCell } from './mazePaths';
+
+export type DifficultyTier = 'easy' | 'medium' | 'hard' | 'expert';
+
+export interface MazeStats {
+  // Steps on the shortest route from start to exit, -1 when the exit is unreachable
+  solutionLength: number;
+  openCells: number;
+  reachableCells: number;
+  deadEnds: number;
+  junctions: number;
+  // Junctions met along the shortest route, i.e. choices the player has to get right
+  decisionPoints: number;
+  // Average number of passages leaving a junction
+  branchingFactor: number;
+  // Average number of steps between two junctions / dead ends
+  averageCorridorLength: number;
+  // Composite 0-100 rating
+  difficulty: number;
+  tier: DifficultyTier;
+}
+
+export class MazeAnalyzer {
+  private maze: MazeGrid;
+
+  constructor(maze: MazeGrid) {
+    this.maze = maze;
+  }
+
+  analyze(start: GridPosition, exit: GridPosition): MazeStats {
+    const distances = floodFill(this.maze, start);
+    const solutionLength = distances[exit.y]?.[exit.x] ?? -1;
+
+    let openCells = 0;
+    let reachableCells = 0;
+    let deadEnds = 0;
+    let junctions = 0;
+    let junctionExits = 0;
+
+    for (let y = 0; y < this.maze.length; y++) {
+      for (let x = 0; x < this.maze[y].length; x++) {
+        // Bridges are crossed in one step and never stood on
+        if (!isOpenCell(this.maze, x, y) || isBridge(this.maze[y][x])) continue;
+
+        openCells++;
+        if (distances[y][x] >= 0) reachableCells++;
+
+        const degree = this.degree(x, y);
+        if (degree === 1) {
+          deadEnds++;
+        } else if (degree >= 3) {
+          junctions++;
+          junctionExits += degree;
+        }
+      }
+    }
+
+    const decisionPoints = solutionLength > 0
+      ? this.tracePath(distances, exit).filter(({ x, y }) => this.degree(x, y) >= 3).length
+      : 0;
+
+    const stats = {
+      solutionLength,
+      openCells,
+      reachableCells,
+      deadEnds,
+      junctions,
+      decisionPoints,
+      branchingFactor: junctions > 0 ? junctionExits / junctions : 0,
+      averageCorridorLength: this.averageCorridorLength(),
+      difficulty: 0,
+      tier: 'easy' as DifficultyTier
+    };
+
+    stats.difficulty = this.rateDifficulty(stats, start, exit);
+    stats.tier = MazeAnalyzer.tierFor(stats.difficulty);
+    return stats;
+  }
+
+  // Layouts not worth building: unreachable or trivially close exits, or most
+  // of the maze cut off from the start
+  isDegenerate(stats: MazeStats): boolean {
+    const minimumRoute = Math.min(this.maze.length, this.maze[0]?.length ?? 0) / 2;
+
+    return stats.solutionLength < 0 ||
+      stats.solutionLength < minimumRoute ||
+      stats.reachableCells < stats.openCells * 0.5;
+  }
+
+  static tierFor(difficulty: number): DifficultyTier {
+    if (difficulty >= 75) return 'expert';
+    if (difficulty >= 50) return 'hard';
+    if (difficulty >= 25) return 'medium';
+    return 'easy';
+  }
+
+  // Passages leaving a cell; a bridge counts as the passage beyond it
+  private degree(x: number, y: number): number {
+    return gridNeighbors(this.maze, x, y).length;
+  }
+
+  // Walk the flood fill distances back downhill from the exit to the start
+  private tracePath(distances: number[][], exit: GridPosition): GridPosition[] {
+    const path: GridPosition[] = [exit];
+    let current = exit;
+
+    while (distances[current.y][current.x] > 0) {
+      const distance = distances[current.y][current.x];
+      const previous = gridNeighbors(this.maze, current.x, current.y)
+        .find(({ x, y }) => distances[y][x] === distance - 1);
+
+      if (!previous) break;
+      path.push(previous);
+      current = previous;
+    }
+
+    return path.reverse();
+  }
+
+  // Follow every corridor from each node (dead end or junction) to the next node
+  private averageCorridorLength(): number {
+    let corridors = 0;
+    let totalLength = 0;
+
+    for (let y = 0; y < this.maze.length; y++) {
+      for (let x = 0; x < this.maze[y].length; x++) {
+        if (!isOpenCell(this.maze, x, y) || isBridge(this.maze[y][x]) || this.degree(x, y) === 2) continue;
+
+        // Steps as the flood fill takes them, straight over bridges
+        for (const first of gridNeighbors(this.maze, x, y)) {
+          let previous = { x, y };
+          let current = first;
+
+          let length = 1;
+          while (this.degree(current.x, current.y) === 2) {
+            const next = gridNeighbors(this.maze, current.x, current.y)
+              .find(cell => cell.x !== previous.x || cell.y !== previous.y);
+
+            if (!next) break;
+            previous = current;
+            current = next;
+            length++;
+          }
+
+          corridors++;
+          totalLength += length;
+        }
+      }
+    }
+
+    // Every corridor was walked once from each end, which leaves the average unchanged
+    return corridors > 0 ? totalLength / corridors : 0;
+  }
+
+  private rateDifficulty(stats: MazeStats, start: GridPosition, exit: GridPosition): number {
+    if (stats.solutionLength <= 0 || stats.reachableCells === 0) return 0;
+
+    // Bigger mazes take longer to search
+    const size = Math.min(1, stats.reachableCells / 1500);
+    // Many choices along the route
+    const decisions = Math.min(1, stats.decisionPoints / 20);
+    // Plenty of places to get stuck
+    const deadEndDensity = Math.min(1, (stats.deadEnds / stats.reachableCells) * 8);
+    // A route that winds far more than the straight-line distance
+    const straightLine = Math.abs(exit.x - start.x) + Math.abs(exit.y - start.y);
+    const winding = Math.min(1, (stats.solutionLength / Math.max(1, straightLine) - 1) / 4);
+
+    const score = size * 0.3 + decisions * 0.3 + deadEndDensity * 0.2 + winding * 0.2;
+    return Math.round(score * 100);
+  }
+}
+
+// Multi-floor layouts are rated by their last leg: the exit floor, from where
+// the player arrives on it. A floor below the exit without reachable stairs up
+// strands the player, which rates as an unreachable exit.
+export function analyzeLayout(layout: MazeLayout): { analyzer: MazeAnalyzer; stats: MazeStats } {
+  const exitFloor = layout.exit.floor ?? 0;
+  let entry: GridPosition = layout.start;
+  let stranded = false;
+
+  for (let floor = 0; floor < exitFloor && !stranded; floor++) {
+    const distances = floodFill(layout.floors[floor], entry);
+    const up = layout.connections.find(connection =>
+      connection.floor === floor && distances[connection.y][connection.x] >= 0);
+    if (up) entry = up;
+    else stranded = true;
+  }
+
+  const analyzer = new MazeAnalyzer(layout.floors[exitFloor]);
+  const stats = analyzer.analyze(entry, layout.exit);
+  if (stranded) {
+    Object.assign(stats, { solutionLength: -1, decisionPoints: 0, difficulty: 0, tier: MazeAnalyzer.tierFor(0) });
+  }
+  return { analyzer, stats };
+}
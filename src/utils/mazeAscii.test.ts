@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { MazeAlgorithmId } from './mazeAlgorithms';
+import { layoutToAscii, parseAsciiLayout } from './mazeAscii';
+import { ExitPlacement, MazeGenerator, MazeLayout } from './mazeGenerator';
+import { parseAsciiMask } from './mazeMask';
+import { createSeededRandom } from './random';
+
+const RING = parseAsciiMask(`
+..#####..
+.#######.
+###...###
+##.....##
+##.....##
+##.....##
+###...###
+.#######.
+..#####..
+`);
+
+const ALGORITHMS: MazeAlgorithmId[] = ['backtracker', 'prim', 'kruskal', 'wilson', 'dungeon'];
+
+// Row-major, floor by floor: the order the parser finds cells in
+const byPosition = (a: { x: number; y: number; floor?: number }, b: { x: number; y: number; floor?: number }) =>
+  (a.floor ?? 0) - (b.floor ?? 0) || a.y - b.y || a.x - b.x;
+
+function generate(algorithm: MazeAlgorithmId, seed: number, options: { exitPlacement?: ExitPlacement; ring?: boolean } = {}): MazeLayout {
+  return new MazeGenerator(21, 21, {
+    random: createSeededRandom(seed),
+    algorithm,
+    exitPlacement: options.exitPlacement,
+    floors: 3,
+    checkpoints: 4,
+    weave: 0.3,
+    mask: options.ring ? RING : undefined
+  }).generateLayout();
+}
+
+function expectRoundTrip(layout: MazeLayout) {
+  const parsed = parseAsciiLayout(layoutToAscii(layout));
+
+  expect(parsed.floors).toEqual(layout.floors);
+  expect(parsed.start).toEqual({ x: layout.start.x, y: layout.start.y });
+  expect(parsed.exit).toEqual(layout.exit);
+  expect(parsed.connections.map(({ x, y, floor }) => ({ x, y, floor })))
+    .toEqual(layout.connections.map(({ x, y, floor }) => ({ x, y, floor })).sort(byPosition));
+  expect(parsed.checkpoints).toEqual([...layout.checkpoints].sort(byPosition));
+}
+
+describe('layoutToAscii / parseAsciiLayout', () => {
+  for (const algorithm of ALGORITHMS) {
+    for (const seed of [1, 2, 3]) {
+      it(`round-trips a three-floor ${algorithm} layout (seed ${seed})`, () => {
+        expectRoundTrip(generate(algorithm, seed));
+      });
+
+      it(`round-trips a ring-shaped ${algorithm} layout (seed ${seed})`, () => {
+        expectRoundTrip(generate(algorithm, seed, { exitPlacement: 'farthest', ring: true }));
+      });
+    }
+  }
+
+  // The corner exit of this seed used to land on the stairs from below
+  it('round-trips when the corner exit is where the stairs arrive', () => {
+    const layout = new MazeGenerator(7, 7, {
+      random: createSeededRandom(9),
+      algorithm: 'wilson',
+      exitPlacement: 'corner',
+      floors: 3
+    }).generateLayout();
+
+    expectRoundTrip(layout);
+  });
+
+  it('rejects stairs without a landing on the floor above', () => {
+    const text = ['#####', '#S>E#', '#####', '', '#####', '#...#', '#####'].join('\n');
+    expect(() => parseAsciiLayout(text)).toThrow('Stairs at (2, 1) on floor 0 lead nowhere');
+  });
+});
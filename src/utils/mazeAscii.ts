@@ -0,0 +1,108 @@
+import { CellType, MazeGrid } from './mazeCells';
+import { FloorConnection, MazeLayout } from './mazeGenerator';
+import { GridPosition } from './mazePaths';
+
+// One character per cell type. Designers mostly need the first five:
+//
+//   #####
+//   #S..#
+//   ###.#
+//   #C.E#
+//   #####
+export const CELL_CHARACTERS: Record<CellType, string> = {
+  [CellType.Wall]: '#',
+  [CellType.Floor]: '.',
+  [CellType.Spawn]: 'S',
+  [CellType.Exit]: 'E',
+  [CellType.Checkpoint]: 'C',
+  [CellType.Door]: 'D',
+  [CellType.LockedDoor]: 'L',
+  [CellType.Water]: '~',
+  [CellType.Pit]: 'O',
+  [CellType.Trap]: '^',
+  [CellType.StairsUp]: '>',
+  [CellType.StairsDown]: '<',
+  [CellType.Room]: ',',
+  [CellType.Void]: ' ',
+  [CellType.BridgeNS]: '|',
+  [CellType.BridgeEW]: '-'
+};
+
+const CHARACTER_CELLS = new Map<string, CellType>(
+  (Object.entries(CELL_CHARACTERS) as [string, string][]).map(([cell, char]) => [char, Number(cell) as CellType])
+);
+
+export function mazeToAscii(maze: MazeGrid): string {
+  return maze.map(row => row.map(cell => CELL_CHARACTERS[cell] ?? '#').join('')).join('\n');
+}
+
+// Short rows are padded with Void, so trimmed trailing spaces don't matter.
+// Empty lines around the maze are ignored. Throws on characters that aren't in
+// CELL_CHARACTERS.
+export function parseAsciiMaze(text: string): MazeGrid {
+  const lines = text.replace(/\r/g, '').split('\n');
+  while (lines.length > 0 && lines[0] === '') lines.shift();
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+
+  const width = Math.max(0, ...lines.map(line => line.length));
+
+  return lines.map((line, y) =>
+    Array.from({ length: width }, (_, x) => {
+      const char = line[x] ?? ' ';
+      const cell = CHARACTER_CELLS.get(char);
+      if (cell === undefined) {
+        throw new Error(`Unknown maze character '${char}' at line ${y + 1}, column ${x + 1}`);
+      }
+      return cell;
+    })
+  );
+}
+
+// Floors are separated by an empty line, ground floor first. Rows of Void are
+// written as spaces, so they never look empty unless an editor strips them.
+export function layoutToAscii(layout: MazeLayout): string {
+  return layout.floors.map(mazeToAscii).join('\n\n');
+}
+
+// Start (S), exit (E) and checkpoints (C) are read from the cells; every '>'
+// leads to the '<' above it. Needs exactly one S on the ground floor and
+// exactly one E.
+export function parseAsciiLayout(text: string): MazeLayout {
+  const floors = text
+    .replace(/\r/g, '')
+    .split(/\n{2,}/)
+    .filter(block => block !== '')
+    .map(parseAsciiMaze);
+  if (floors.length === 0) throw new Error('Maze is empty');
+
+  const find = (type: CellType): GridPosition[] => {
+    const cells: GridPosition[] = [];
+    floors.forEach((grid, floor) => grid.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell === type) cells.push({ x, y, floor });
+    })));
+    return cells;
+  };
+
+  const starts = find(CellType.Spawn);
+  const exits = find(CellType.Exit);
+  if (starts.length !== 1 || starts[0].floor !== 0) {
+    throw new Error(`Expected one start (S) on the ground floor, found ${starts.length}`);
+  }
+  if (exits.length !== 1) throw new Error(`Expected one exit (E), found ${exits.length}`);
+
+  const connections: FloorConnection[] = find(CellType.StairsUp).map(({ x, y, floor }): FloorConnection => {
+    if (floors[floor + 1]?.[y]?.[x] !== CellType.StairsDown) {
+      throw new Error(`Stairs at (${x}, ${y}) on floor ${floor} lead nowhere`);
+    }
+    return { x, y, floor, kind: 'stairs' };
+  });
+
+  return {
+    grid: floors[0],
+    floors,
+    connections,
+    start: { x: starts[0].x, y: starts[0].y },
+    exit: exits[0],
+    checkpoints: find(CellType.Checkpoint)
+  };
+}
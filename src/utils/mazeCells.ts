@@ -0,0 +1,82 @@
+// Every grid cell holds one of these. Floor and Wall keep the values of the
+// original 0/1 grid so plain number[][] layouts still read correctly.
+export enum CellType {
+  Floor = 0,
+  Wall = 1,
+  Door = 2,
+  LockedDoor = 3,
+  Water = 4,
+  Pit = 5,
+  Spawn = 6,
+  Exit = 7,
+  Checkpoint = 8,
+  Trap = 9,
+  // Multi-floor mazes: StairsUp leads to the StairsDown cell right above it
+  StairsUp = 10,
+  StairsDown = 11,
+  // Floor inside a dungeon room rather than a corridor
+  Room = 12,
+  // Outside a shaped maze: blocks like a wall but is not built
+  Void = 13,
+  // Weave crossings. BridgeNS carries a raised north-south deck over an
+  // east-west tunnel, BridgeEW the other way round. Neither can be turned in.
+  BridgeNS = 14,
+  BridgeEW = 15
+}
+
+export type MazeGrid = CellType[][];
+
+interface CellProperties {
+  // Blocks movement (collision)
+  solid: boolean;
+  // Usable by path finding, flood fills and patrols
+  walkable: boolean;
+  // Enemies and pickups may be placed here
+  spawnable: boolean;
+  // Movement speed multiplier while standing on the cell
+  speed: number;
+}
+
+export const CELL_PROPERTIES: Record<CellType, CellProperties> = {
+  [CellType.Floor]: { solid: false, walkable: true, spawnable: true, speed: 1 },
+  [CellType.Wall]: { solid: true, walkable: false, spawnable: false, speed: 0 },
+  [CellType.Door]: { solid: false, walkable: true, spawnable: false, speed: 1 },
+  [CellType.LockedDoor]: { solid: true, walkable: false, spawnable: false, speed: 0 },
+  [CellType.Water]: { solid: false, walkable: true, spawnable: false, speed: 0.5 },
+  // Pits can be stepped into (and cost a life), but routes never lead through them
+  [CellType.Pit]: { solid: false, walkable: false, spawnable: false, speed: 1 },
+  [CellType.Spawn]: { solid: false, walkable: true, spawnable: false, speed: 1 },
+  [CellType.Exit]: { solid: false, walkable: true, spawnable: false, speed: 1 },
+  [CellType.Checkpoint]: { solid: false, walkable: true, spawnable: false, speed: 1 },
+  [CellType.Trap]: { solid: false, walkable: true, spawnable: false, speed: 1 },
+  [CellType.StairsUp]: { solid: false, walkable: true, spawnable: false, speed: 1 },
+  [CellType.StairsDown]: { solid: false, walkable: true, spawnable: false, speed: 1 },
+  [CellType.Room]: { solid: false, walkable: true, spawnable: true, speed: 1 },
+  [CellType.Void]: { solid: true, walkable: false, spawnable: false, speed: 0 },
+  [CellType.BridgeNS]: { solid: false, walkable: true, spawnable: false, speed: 1 },
+  [CellType.BridgeEW]: { solid: false, walkable: true, spawnable: false, speed: 1 }
+};
+
+// Out-of-range values are treated as walls
+const propertiesOf = (cell: CellType | undefined): CellProperties =>
+  CELL_PROPERTIES[cell as CellType] ?? CELL_PROPERTIES[CellType.Wall];
+
+export function isSolid(cell: CellType | undefined): boolean {
+  return propertiesOf(cell).solid;
+}
+
+export function isWalkable(cell: CellType | undefined): boolean {
+  return propertiesOf(cell).walkable;
+}
+
+export function isSpawnable(cell: CellType | undefined): boolean {
+  return propertiesOf(cell).spawnable;
+}
+
+export function isBridge(cell: CellType | undefined): boolean {
+  return cell === CellType.BridgeNS || cell === CellType.BridgeEW;
+}
+
+export function movementSpeed(cell: CellType | undefined): number {
+  return propertiesOf(cell).speed;
+}
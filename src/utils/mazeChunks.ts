@@ -0,0 +1,145 @@
+import { MazeAlgorithmId } from './mazeAlgorithms';
+import { CellType, isWalkable, MazeGrid } from './mazeCells';
+import { MazeGenerator } from './mazeGenerator';
+import { GridPosition } from './mazePaths';
+import { createSeededRandom } from './random';
+
+// Grid cells per chunk side. Even, so every chunk starts on a wall line: a
+// chunk owns the walls along its west and north borders, the ones along its
+// east and south borders belong to the next chunks.
+export const CHUNK_SIZE = 20;
+
+// Gaps in each border wall, so neighbouring chunks always connect
+const OPENINGS_PER_BORDER = 2;
+
+export interface ChunkedMazeOptions {
+  algorithm?: MazeAlgorithmId;
+  braid?: number;
+}
+
+export interface MazeChunk {
+  // Chunk coordinates; the chunk covers grid cells
+  // [x * CHUNK_SIZE, (x + 1) * CHUNK_SIZE) horizontally, likewise for y
+  x: number;
+  y: number;
+  grid: MazeGrid;
+}
+
+// Mix a seed with integer coordinates into a new 32-bit seed
+export function hashCoordinates(seed: number, x: number, y: number, salt = 0): number {
+  let hash = seed ^ Math.imul(salt + 1, 0x9e3779b1);
+  hash = Math.imul(hash ^ x, 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13) ^ y, 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+// Chunk holding a grid cell
+export function chunkOf(gridX: number, gridY: number): GridPosition {
+  return { x: Math.floor(gridX / CHUNK_SIZE), y: Math.floor(gridY / CHUNK_SIZE) };
+}
+
+export function chunkKey(x: number, y: number): string {
+  return `${x},${y}`;
+}
+
+// Maze without borders, generated chunk by chunk as it is explored. Every
+// chunk is seeded from its own coordinates, so it comes out the same however
+// often it is dropped and regenerated.
+export class ChunkedMaze {
+  private seed: number;
+  private algorithm: MazeAlgorithmId;
+  private braid: number;
+  private chunks = new Map<string, MazeChunk>();
+
+  constructor(seed: number, options: ChunkedMazeOptions = {}) {
+    this.seed = seed;
+    this.algorithm = options.algorithm ?? 'backtracker';
+    this.braid = options.braid ?? 0;
+  }
+
+  chunk(x: number, y: number): MazeChunk {
+    const key = chunkKey(x, y);
+    let chunk = this.chunks.get(key);
+    if (!chunk) {
+      chunk = this.generateChunk(x, y);
+      this.chunks.set(key, chunk);
+    }
+    return chunk;
+  }
+
+  // Forget a chunk; it is regenerated identically when needed again
+  release(x: number, y: number): void {
+    this.chunks.delete(chunkKey(x, y));
+  }
+
+  // Open cell of chunk (0, 0) closest to its north-west corner
+  startCell(): GridPosition {
+    const { grid } = this.chunk(0, 0);
+    let start: GridPosition = { x: 1, y: 1 };
+    let startDistance = Infinity;
+
+    grid.forEach((row, y) => row.forEach((cell, x) => {
+      if (isWalkable(cell) && x > 0 && y > 0 && x + y < startDistance) {
+        start = { x, y };
+        startDistance = x + y;
+      }
+    }));
+
+    return start;
+  }
+
+  cell(gridX: number, gridY: number): CellType {
+    const { x, y } = chunkOf(gridX, gridY);
+    return this.chunk(x, y).grid[gridY - y * CHUNK_SIZE][gridX - x * CHUNK_SIZE];
+  }
+
+  private generateChunk(x: number, y: number): MazeChunk {
+    // One extra row and column for the east and south borders, which are
+    // dropped again: they belong to the neighbours
+    const generator = new MazeGenerator(CHUNK_SIZE + 1, CHUNK_SIZE + 1, {
+      random: createSeededRandom(hashCoordinates(this.seed, x, y)),
+      algorithm: this.algorithm,
+      braid: this.braid
+    });
+    const grid = generator.generate()
+      .slice(0, CHUNK_SIZE)
+      .map(row => row.slice(0, CHUNK_SIZE).map(cell =>
+        cell === CellType.Spawn || cell === CellType.Exit ? CellType.Floor : cell
+      ));
+
+    // The gaps of the east and south borders are chosen by the neighbours
+    for (const row of this.borderOpenings(x, y, 1)) {
+      grid[row][0] = CellType.Floor;
+      this.dig(grid, 1, row, 1, 0);
+    }
+    for (const column of this.borderOpenings(x, y, 2)) {
+      grid[0][column] = CellType.Floor;
+      this.dig(grid, column, 1, 0, 1);
+    }
+    for (const row of this.borderOpenings(x + 1, y, 1)) this.dig(grid, CHUNK_SIZE - 1, row, -1, 0);
+    for (const column of this.borderOpenings(x, y + 1, 2)) this.dig(grid, column, CHUNK_SIZE - 1, 0, -1);
+
+    return { x, y, grid };
+  }
+
+  // Tunnel from a border gap into the chunk until the passage meets an open
+  // cell. Perfect mazes are open right behind every gap; dungeons may need a
+  // corridor to the nearest room.
+  private dig(grid: MazeGrid, x: number, y: number, dx: number, dy: number): void {
+    while (x >= 0 && x < CHUNK_SIZE && y >= 0 && y < CHUNK_SIZE && !isWalkable(grid[y][x])) {
+      grid[y][x] = CellType.Floor;
+      x += dx;
+      y += dy;
+    }
+  }
+
+  // Odd offsets along the west (salt 1) or north (salt 2) border of a chunk
+  private borderOpenings(x: number, y: number, salt: number): number[] {
+    const random = createSeededRandom(hashCoordinates(this.seed, x, y, salt));
+    const openings = new Set<number>();
+    while (openings.size < OPENINGS_PER_BORDER) {
+      openings.add(1 + 2 * Math.floor(random() * (CHUNK_SIZE / 2)));
+    }
+    return [...openings];
+  }
+}
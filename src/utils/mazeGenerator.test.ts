@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { MAZE_ALGORITHMS, MazeAlgorithmId } from './mazeAlgorithms';
+import { analyzeLayout } from './mazeAnalyzer';
+import { isWalkable } from './mazeCells';
+import { MazeGenerator } from './mazeGenerator';
+import { parseAsciiMask } from './mazeMask';
+import { createSeededRandom } from './random';
+
+const ALGORITHMS = Object.keys(MAZE_ALGORITHMS) as MazeAlgorithmId[];
+
+// Two letters with a gap between them
+const TWO_BLOBS = parseAsciiMask(`
+###....###
+#.#....#..
+###....###
+#.#......#
+#.#....###
+`);
+
+function generator(algorithm: MazeAlgorithmId, seed: number): MazeGenerator {
+  return new MazeGenerator(21, 21, {
+    random: createSeededRandom(seed),
+    algorithm,
+    braid: 0.2,
+    weave: 0.3,
+    checkpoints: 3,
+    features: { doors: 2, lockedDoors: 1, water: 2, pits: 2, traps: 2 },
+    floors: 2
+  });
+}
+
+describe('MazeGenerator seeding', () => {
+  for (const algorithm of ALGORITHMS) {
+    it(`generates the same ${algorithm} layout for the same seed`, () => {
+      expect(generator(algorithm, 42).generateLayout()).toEqual(generator(algorithm, 42).generateLayout());
+    });
+
+    it(`generates different ${algorithm} layouts for different seeds`, () => {
+      expect(generator(algorithm, 1).generateLayout().floors).not.toEqual(generator(algorithm, 2).generateLayout().floors);
+    });
+  }
+
+  // Rejected layouts are regenerated from the same stream, so retries replay too
+  it('replays the whole sequence of layouts of a seed', () => {
+    const first = generator('backtracker', 7);
+    const second = generator('backtracker', 7);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect(first.generateLayout()).toEqual(second.generateLayout());
+    }
+  });
+});
+
+describe('MazeGenerator masks', () => {
+  for (const algorithm of ALGORITHMS) {
+    it(`carves every blob of a split ${algorithm} mask into one connected maze`, () => {
+      const layout = new MazeGenerator(41, 21, { random: createSeededRandom(11), algorithm, mask: TWO_BLOBS }).generateLayout();
+
+      // Both letters are carved, not left as blocks of wall
+      const openIn = (from: number, to: number) =>
+        layout.grid.some(row => row.slice(from, to).some(isWalkable));
+      expect(openIn(0, 13)).toBe(true);
+      expect(openIn(28, 41)).toBe(true);
+
+      const { stats } = analyzeLayout(layout);
+      expect(stats.reachableCells).toBe(stats.openCells);
+      expect(stats.solutionLength).toBeGreaterThan(0);
+    });
+  }
+});
@@ -1,88 +1,525 @@
+import { CellGrid, MAZE_ALGORITHMS, MazeAlgorithm, MazeAlgorithmId, shuffle } from './mazeAlgorithms';
+import { CellType, isBridge, MazeGrid } from './mazeCells';
+import { MazeMask } from './mazeMask';
+import {
+  findFarthestCell,
+  findNearestReachableCell,
+  floodFill,
+  GRID_DIRECTIONS,
+  GridPosition,
+  isOpenCell
+} from './mazePaths';
+import { RandomSource } from './random';
+
+// 'corner': reachable cell nearest the bottom-right corner
+// 'farthest': reachable cell with the longest walk from the start
+export type ExitPlacement = 'corner' | 'farthest';
+
+// How many of each special cell to scatter through each floor of the maze
+export interface MazeFeatureCounts {
+  doors?: number;
+  // Solid until the game unlocks them; never placed where they would cut off
+  // the exit or a checkpoint
+  lockedDoors?: number;
+  water?: number;
+  // Same placement rule as locked doors, routes never need to cross a pit
+  pits?: number;
+  traps?: number;
+}
+
+export interface MazeGeneratorOptions {
+  // Pluggable PRNG; pass createSeededRandom(seed) for reproducible layouts
+  random?: RandomSource;
+  // Carving strategy, either a built-in id or a custom implementation
+  algorithm?: MazeAlgorithmId | MazeAlgorithm;
+  exitPlacement?: ExitPlacement;
+  // Fraction of dead ends (0..1) removed afterwards to create loops
+  braid?: number;
+  // Fraction of dead ends (0..1) tunnelled under (or bridged over) the straight
+  // corridor next to them, before braiding
+  weave?: number;
+  checkpoints?: number;
+  features?: MazeFeatureCounts;
+  // Stacked levels; the player starts on floor 0 and the exit is on the top floor
+  floors?: number;
+  // Carve only inside this shape (any resolution, resampled to the cell grid)
+  mask?: MazeMask;
+}
+
+export type FloorConnectionKind = 'stairs' | 'ramp' | 'ladder';
+
+// Vertical link from `floor` (a StairsUp cell) to `floor + 1` (a StairsDown
+// cell), both at the same x/y
+export interface FloorConnection {
+  x: number;
+  y: number;
+  floor: number;
+  kind: FloorConnectionKind;
+}
+
+export interface MazeLayout {
+  // Ground floor, same as floors[0]
+  grid: MazeGrid;
+  floors: MazeGrid[];
+  connections: FloorConnection[];
+  start: GridPosition;
+  exit: GridPosition;
+  checkpoints: GridPosition[];
+}
+
+const CHECKPOINT_START_DISTANCE = 8;
+const CHECKPOINT_SPACING = 4;
+const FEATURE_START_DISTANCE = 3;
+const CONNECTIONS_PER_FLOOR = 2;
+const CONNECTION_KINDS: FloorConnectionKind[] = ['stairs', 'ramp', 'ladder'];
 
 export class MazeGenerator {
   private width: number;
   private height: number;
-  private maze: number[][];
+  private maze: MazeGrid;
+  private random: RandomSource;
+  private algorithm: MazeAlgorithm;
+  private exitPlacement: ExitPlacement;
+  private braidRatio: number;
+  private weaveRatio: number;
+  private checkpointCount: number;
+  private features: MazeFeatureCounts;
+  private floorCount: number;
+  private mask: MazeMask | undefined;
 
-  constructor(width: number, height: number) {
+  constructor(width: number, height: number, options: MazeGeneratorOptions = {}) {
     this.width = width;
     this.height = height;
     this.maze = [];
+    this.random = options.random ?? Math.random;
+    this.exitPlacement = options.exitPlacement ?? 'corner';
+    this.braidRatio = Math.min(1, Math.max(0, options.braid ?? 0));
+    this.weaveRatio = Math.min(1, Math.max(0, options.weave ?? 0));
+    this.checkpointCount = options.checkpoints ?? 0;
+    this.features = options.features ?? {};
+    this.floorCount = Math.max(1, Math.floor(options.floors ?? 1));
+    this.mask = options.mask;
+
+    const algorithm = options.algorithm ?? 'backtracker';
+    this.algorithm = typeof algorithm === 'string' ? MAZE_ALGORITHMS[algorithm] : algorithm;
+  }
+
+  generate(): MazeGrid {
+    return this.generateLayout().grid;
   }
 
-  generate(): number[][] {
+  generateLayout(): MazeLayout {
+    const floors: MazeGrid[] = [];
+    let start: GridPosition = { x: 1, y: 1 };
+
+    for (let floor = 0; floor < this.floorCount; floor++) {
+      const floorStart = this.carveFloor();
+      floors.push(this.maze);
+      if (floor === 0) start = floorStart;
+    }
+
+    // Each floor is entered at the start or where the stairs from below arrive
+    const connections = this.connectFloors(floors, start);
+    const entries = floors.map((_, floor) => {
+      const arrival = connections.find(connection => connection.floor === floor - 1);
+      return floor === 0 || !arrival ? start : { x: arrival.x, y: arrival.y };
+    });
+
+    const topFloor = floors.length - 1;
+    this.maze = floors[topFloor];
+    const exit = { ...this.chooseExit(entries[topFloor]), floor: topFloor };
+
+    const checkpoints: GridPosition[] = [];
+    floors.forEach((maze, floor) => {
+      this.maze = maze;
+
+      // Share the checkpoints out over the floors, lower floors first
+      const count = Math.floor(this.checkpointCount / floors.length) +
+        (floor < this.checkpointCount % floors.length ? 1 : 0);
+      const floorCheckpoints = this.placeCheckpoints(entries[floor], floor === topFloor ? exit : null, count)
+        .map(cell => ({ ...cell, floor }));
+      checkpoints.push(...floorCheckpoints);
+
+      const floorConnections = connections.filter(connection => connection.floor === floor || connection.floor === floor - 1);
+      this.placeFeatures(entries[floor], [
+        ...(floor === topFloor ? [exit] : []),
+        ...floorCheckpoints,
+        ...floorConnections
+      ]);
+    });
+
+    floors[0][start.y][start.x] = CellType.Spawn;
+    floors[topFloor][exit.y][exit.x] = CellType.Exit;
+
+    return {
+      grid: floors[0],
+      floors,
+      connections,
+      start: { ...start, floor: 0 },
+      exit,
+      checkpoints
+    };
+  }
+
+  // Carve one complete, connected floor into this.maze and return its start cell
+  private carveFloor(): GridPosition {
     // Initialize maze with walls
-    this.maze = Array(this.height).fill(null).map(() => Array(this.width).fill(1));
+    this.maze = Array(this.height).fill(null).map(() => Array(this.width).fill(CellType.Wall));
+
+    // Carve passages between the odd-coordinate cells
+    const grid = new CellGrid(this.maze, this.mask);
+    this.algorithm.carve(grid, this.random);
+
+    if (this.weaveRatio > 0) {
+      this.weave(grid);
+    }
+
+    if (this.braidRatio > 0) {
+      this.braid(grid);
+    }
 
-    // Start carving from position (1, 1)
-    this.carvePath(1, 1);
+    const start = this.findStart();
 
-    // Ensure there's always a path to the exit area
-    this.ensureExitPath();
+    // Guarantee every open cell is reachable from the start
+    this.connectRegions(start);
 
-    return this.maze;
+    // Keep only the walls that outline the shape
+    if (this.mask) {
+      for (let y = 0; y < this.height; y++) {
+        for (let x = 0; x < this.width; x++) {
+          if (!grid.touchesShape(x, y)) this.maze[y][x] = CellType.Void;
+        }
+      }
+    }
+
+    return start;
   }
 
-  private carvePath(x: number, y: number): void {
-    // Mark current cell as path
-    this.maze[y][x] = 0;
+  // Link each floor to the one above at cells in the far half of the lower
+  // floor, so every level has to be crossed before climbing
+  private connectFloors(floors: MazeGrid[], start: GridPosition): FloorConnection[] {
+    const connections: FloorConnection[] = [];
+    let entry = start;
+
+    for (let floor = 0; floor < floors.length - 1; floor++) {
+      const lower = floors[floor];
+      const upper = floors[floor + 1];
+      const distances = floodFill(lower, entry);
+      const maxDistance = Math.max(...distances.map(row => Math.max(...row)));
 
-    // Get random directions
-    const directions = [
-      [0, -2], // North
-      [2, 0],  // East
-      [0, 2],  // South
-      [-2, 0]  // West
-    ];
+      const candidates: GridPosition[] = [];
+      for (let y = 1; y < this.height - 1; y += 2) {
+        for (let x = 1; x < this.width - 1; x += 2) {
+          if (this.isFloor(lower[y][x]) && this.isFloor(upper[y][x]) && distances[y][x] >= maxDistance / 2) {
+            candidates.push({ x, y });
+          }
+        }
+      }
+
+      const placed: GridPosition[] = [];
+      const link = (cell: GridPosition) => {
+        lower[cell.y][cell.x] = CellType.StairsUp;
+        upper[cell.y][cell.x] = CellType.StairsDown;
+        connections.push({
+          ...cell,
+          floor,
+          kind: CONNECTION_KINDS[Math.floor(this.random() * CONNECTION_KINDS.length)]
+        });
+        placed.push(cell);
+      };
+
+      for (const cell of shuffle(candidates, this.random)) {
+        if (placed.length >= CONNECTIONS_PER_FLOOR) break;
+        if (placed.some(other => Math.hypot(cell.x - other.x, cell.y - other.y) < CHECKPOINT_SPACING)) continue;
+        link(cell);
+      }
 
-    // Shuffle directions
-    for (let i = directions.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [directions[i], directions[j]] = [directions[j], directions[i]];
+      // Masks and rooms can leave no shared cell in the far half
+      if (placed.length === 0) {
+        const cell = this.fallbackConnection(lower, upper, distances);
+        if (!cell) throw new Error(`Floor ${floor} cannot be connected to floor ${floor + 1}`);
+        link(cell);
+      }
+
+      entry = placed[0];
     }
 
-    // Try each direction
-    for (const [dx, dy] of directions) {
-      const newX = x + dx;
-      const newY = y + dy;
+    return connections;
+  }
 
-      // Check if new position is valid and unvisited
-      if (this.isValidCell(newX, newY) && this.maze[newY][newX] === 1) {
-        // Carve wall between current and new cell
-        this.maze[y + dy / 2][x + dx / 2] = 0;
-        
-        // Recursively carve from new cell
-        this.carvePath(newX, newY);
+  // Any reachable cell of the lower floor that is open above, or failing that
+  // one whose upper cell can be tunnelled through to the upper passages
+  private fallbackConnection(lower: MazeGrid, upper: MazeGrid, distances: number[][]): GridPosition | null {
+    const reachable: GridPosition[] = [];
+    for (let y = 1; y < this.height - 1; y += 2) {
+      for (let x = 1; x < this.width - 1; x += 2) {
+        if (distances[y][x] > 0 && this.isFloor(lower[y][x])) reachable.push({ x, y });
       }
     }
+
+    const shuffled = shuffle(reachable, this.random);
+    const open = shuffled.find(cell => this.isFloor(upper[cell.y][cell.x]));
+    if (open) return open;
+
+    return shuffled.find(cell => upper[cell.y][cell.x] === CellType.Wall && this.tunnel(upper, cell)) ?? null;
   }
 
-  private isValidCell(x: number, y: number): boolean {
-    return x > 0 && x < this.width - 1 && y > 0 && y < this.height - 1;
+  // Carve the shortest run of walls from cell to an open cell of maze, staying
+  // inside the shape; false when no open cell can be reached
+  private tunnel(maze: MazeGrid, cell: GridPosition): boolean {
+    const previous = new Map<string, GridPosition>();
+    const key = ({ x, y }: GridPosition) => `${x},${y}`;
+    const queue: GridPosition[] = [cell];
+    previous.set(key(cell), cell);
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      for (const { dx, dy } of GRID_DIRECTIONS) {
+        const next = { x: current.x + dx * 2, y: current.y + dy * 2 };
+        if (!this.isInterior(next.x, next.y) || previous.has(key(next))) continue;
+        if (maze[current.y + dy][current.x + dx] === CellType.Void || maze[next.y][next.x] === CellType.Void) continue;
+        previous.set(key(next), current);
+
+        if (!isOpenCell(maze, next.x, next.y)) {
+          queue.push(next);
+          continue;
+        }
+
+        // Open every wall on the way back to the starting cell
+        for (let step = current, from = next; ; from = step, step = previous.get(key(step))) {
+          maze[(step.y + from.y) / 2][(step.x + from.x) / 2] = CellType.Floor;
+          maze[step.y][step.x] = CellType.Floor;
+          if (step === cell) return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  // Remove a share of the dead ends by opening one extra wall each, preferring
+  // walls into another dead end so a single opening fixes two of them
+  private braid(grid: CellGrid): void {
+    const deadEnds = shuffle(grid.cells().filter(cell => grid.isDeadEnd(cell)), this.random);
+
+    for (const cell of deadEnds) {
+      // An earlier opening may already have fixed this one
+      if (!grid.isDeadEnd(cell) || this.random() >= this.braidRatio) continue;
+
+      const candidates = grid.neighbors(cell).filter(neighbor => grid.isCarved(neighbor) && !grid.isLinked(cell, neighbor));
+      if (candidates.length === 0) continue;
+
+      const deadEndCandidates = candidates.filter(neighbor => grid.isDeadEnd(neighbor));
+      const pool = deadEndCandidates.length > 0 ? deadEndCandidates : candidates;
+      grid.link(cell, pool[Math.floor(this.random() * pool.length)]);
+    }
+  }
+
+  // Continue a dead end straight across the neighbouring corridor to the cell
+  // beyond. The crossed cell becomes a bridge: one passage runs over it, the
+  // other through a tunnel underneath.
+  private weave(grid: CellGrid): void {
+    const deadEnds = shuffle(grid.cells().filter(cell => grid.isDeadEnd(cell)), this.random);
+
+    for (const cell of deadEnds) {
+      if (this.random() >= this.weaveRatio || !grid.isDeadEnd(cell)) continue;
+
+      for (const { dx, dy } of shuffle(GRID_DIRECTIONS.slice(), this.random)) {
+        const crossing = { column: cell.column + dx, row: cell.row + dy };
+        const beyond = { column: cell.column + dx * 2, row: cell.row + dy * 2 };
+        if (!grid.contains(crossing.column, crossing.row) || !grid.contains(beyond.column, beyond.row)) continue;
+        if (!grid.isCarved(beyond)) continue;
+
+        // The crossed corridor has to run straight across, and crossings are
+        // kept apart so their ramps never meet
+        const linked = grid.linkedNeighbors(crossing);
+        const straightAcross = linked.length === 2 &&
+          linked.every(other => (other.column - crossing.column) * dx + (other.row - crossing.row) * dy === 0);
+        if (!straightAcross) continue;
+        if (grid.neighbors(crossing).some(other => isBridge(this.maze[other.row * 2 + 1][other.column * 2 + 1]))) continue;
+
+        grid.link(cell, crossing);
+        grid.link(crossing, beyond);
+        this.maze[crossing.row * 2 + 1][crossing.column * 2 + 1] = this.random() < 0.5 ? CellType.BridgeNS : CellType.BridgeEW;
+        break;
+      }
+    }
+  }
+
+  private findStart(): GridPosition {
+    for (let y = 1; y < this.height - 1; y++) {
+      for (let x = 1; x < this.width - 1; x++) {
+        if (this.isFloor(this.maze[y][x])) return { x, y };
+      }
+    }
+
+    // Nothing was carved (degenerate size), open the first interior cell
+    const start = { x: Math.min(1, this.width - 1), y: Math.min(1, this.height - 1) };
+    this.maze[start.y][start.x] = CellType.Floor;
+    return start;
+  }
+
+  // Flood fill from the start; whenever the fill runs dry while unreached open
+  // cells remain behind a single wall, knock out one such wall and keep going.
+  // Perfect mazes are already connected, so this never touches them.
+  private connectRegions(start: GridPosition): void {
+    const reached = this.maze.map(row => row.map(() => false));
+    const queue: GridPosition[] = [start];
+    let bridges: { wall: GridPosition; cell: GridPosition }[] = [];
+    reached[start.y][start.x] = true;
+
+    let head = 0;
+    while (true) {
+      while (head < queue.length) {
+        const { x, y } = queue[head++];
+        for (const { dx, dy } of GRID_DIRECTIONS) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (isOpenCell(this.maze, nx, ny)) {
+            if (!reached[ny][nx]) {
+              reached[ny][nx] = true;
+              queue.push({ x: nx, y: ny });
+            }
+          } else if (this.isCell(x, y) && this.isInterior(nx, ny) && isOpenCell(this.maze, x + dx * 2, y + dy * 2)) {
+            bridges.push({ wall: { x: nx, y: ny }, cell: { x: x + dx * 2, y: y + dy * 2 } });
+          }
+        }
+      }
+
+      const pending = bridges.filter(({ cell }) => !reached[cell.y][cell.x]);
+      if (pending.length === 0) return;
+
+      const { wall, cell } = pending[Math.floor(this.random() * pending.length)];
+      this.maze[wall.y][wall.x] = CellType.Floor;
+      reached[wall.y][wall.x] = true;
+      reached[cell.y][cell.x] = true;
+      queue.push(wall, cell);
+
+      bridges = pending;
+    }
+  }
+
+  private chooseExit(start: GridPosition): GridPosition {
+    // Stairs already placed on this floor keep their cell
+    const distances = floodFill(this.maze, start).map((row, y) => row.map((distance, x) =>
+      this.maze[y][x] === CellType.StairsUp || this.maze[y][x] === CellType.StairsDown ? -1 : distance));
+    const exit = this.exitPlacement === 'farthest'
+      ? findFarthestCell(distances)
+      : findNearestReachableCell(distances, { x: this.width - 2, y: this.height - 2 });
+
+    return exit ?? start;
+  }
+
+  // Spread checkpoints over reachable floor cells, away from the start and each
+  // other; rooms are filled first so checkpoints double as arenas
+  private placeCheckpoints(start: GridPosition, exit: GridPosition | null, count: number): GridPosition[] {
+    const checkpoints: GridPosition[] = [];
+    if (count <= 0) return checkpoints;
+
+    const distances = floodFill(this.maze, start);
+    const candidates: GridPosition[] = [];
+    for (let y = 1; y < this.height - 1; y += 2) {
+      for (let x = 1; x < this.width - 1; x += 2) {
+        if (distances[y][x] > 0 && this.isFloor(this.maze[y][x]) && (!exit || x !== exit.x || y !== exit.y)) {
+          candidates.push({ x, y });
+        }
+      }
+    }
+
+    // Small mazes cannot keep the full distance from the start
+    const startDistance = Math.min(CHECKPOINT_START_DISTANCE, Math.min(this.width, this.height) / 3);
+    const farEnough = (cell: GridPosition, other: GridPosition, distance: number) =>
+      Math.hypot(cell.x - other.x, cell.y - other.y) >= distance;
+
+    const shuffled = shuffle(candidates, this.random);
+    const inRoom = (cell: GridPosition) => this.maze[cell.y][cell.x] === CellType.Room;
+    const ordered = [...shuffled.filter(inRoom), ...shuffled.filter(cell => !inRoom(cell))];
+
+    for (const cell of ordered) {
+      if (checkpoints.length >= count) break;
+      if (!farEnough(cell, start, startDistance)) continue;
+      if (!checkpoints.every(other => farEnough(cell, other, CHECKPOINT_SPACING))) continue;
+
+      this.maze[cell.y][cell.x] = CellType.Checkpoint;
+      checkpoints.push(cell);
+    }
+
+    return checkpoints;
   }
 
-  private ensureExitPath(): void {
-    // Make sure there's a clear path to the bottom-right area
-    const exitX = this.width - 2;
-    const exitY = this.height - 2;
+  private placeFeatures(start: GridPosition, keyCells: GridPosition[]): void {
+    const { doors = 0, lockedDoors = 0, water = 0, pits = 0, traps = 0 } = this.features;
 
-    // Simple path carving to exit
-    let currentX = 1;
-    let currentY = 1;
+    this.scatter(CellType.LockedDoor, lockedDoors, this.doorwayCandidates(), start, keyCells);
+    this.scatter(CellType.Door, doors, this.doorwayCandidates(), start, keyCells);
+    this.scatter(CellType.Pit, pits, this.floorCandidates(start), start, keyCells);
+    this.scatter(CellType.Water, water, this.floorCandidates(start), start, keyCells);
+    this.scatter(CellType.Trap, traps, this.floorCandidates(start), start, keyCells);
+  }
 
-    while (currentX < exitX || currentY < exitY) {
-      this.maze[currentY][currentX] = 0;
+  // Turn up to `count` random candidates into the given cell type. Cells that
+  // block routes are only kept when the exit and checkpoints stay reachable.
+  private scatter(type: CellType, count: number, candidates: GridPosition[], start: GridPosition, keyCells: GridPosition[]): void {
+    const blocksRoutes = type === CellType.LockedDoor || type === CellType.Pit;
+    let placed = 0;
 
-      if (currentX < exitX && Math.random() > 0.3) {
-        currentX++;
-      } else if (currentY < exitY) {
-        currentY++;
-      } else if (currentX < exitX) {
-        currentX++;
+    for (const cell of shuffle(candidates, this.random)) {
+      if (placed >= count) break;
+      const original = this.maze[cell.y][cell.x];
+      if (!this.isFloor(original)) continue;
+
+      this.maze[cell.y][cell.x] = type;
+      if (blocksRoutes) {
+        const distances = floodFill(this.maze, start);
+        if (keyCells.some(key => distances[key.y][key.x] < 0)) {
+          this.maze[cell.y][cell.x] = original;
+          continue;
+        }
       }
+      placed++;
     }
+  }
+
+  // Open wall slots between two cells, i.e. the narrow gaps a door fits in
+  private doorwayCandidates(): GridPosition[] {
+    const candidates: GridPosition[] = [];
+    for (let y = 1; y < this.height - 1; y++) {
+      for (let x = 1; x < this.width - 1; x++) {
+        if (this.maze[y][x] !== CellType.Floor || this.isCell(x, y)) continue;
+        // Ramps and tunnel mouths next to a bridge have no room for a door
+        if (GRID_DIRECTIONS.some(({ dx, dy }) => isBridge(this.maze[y + dy]?.[x + dx]))) continue;
 
-    // Ensure exit cell is clear
-    this.maze[exitY][exitX] = 0;
+        const horizontal = x % 2 === 0 && y % 2 === 1;
+        const vertical = x % 2 === 1 && y % 2 === 0;
+        if (horizontal || vertical) candidates.push({ x, y });
+      }
+    }
+    return candidates;
+  }
+
+  private floorCandidates(start: GridPosition): GridPosition[] {
+    const candidates: GridPosition[] = [];
+    for (let y = 1; y < this.height - 1; y += 2) {
+      for (let x = 1; x < this.width - 1; x += 2) {
+        if (this.isFloor(this.maze[y][x]) && Math.hypot(x - start.x, y - start.y) >= FEATURE_START_DISTANCE) {
+          candidates.push({ x, y });
+        }
+      }
+    }
+    return candidates;
+  }
+
+  // Plain corridor or room floor, free for stairs, checkpoints and hazards
+  private isFloor(cell: CellType): boolean {
+    return cell === CellType.Floor || cell === CellType.Room;
+  }
+
+  // Cells sit on odd coordinates, everything else is a wall slot between them
+  private isCell(x: number, y: number): boolean {
+    return x % 2 === 1 && y % 2 === 1;
+  }
+
+  private isInterior(x: number, y: number): boolean {
+    return x > 0 && x < this.width - 1 && y > 0 && y < this.height - 1;
   }
 }
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { CellType } from './mazeCells';
+import { createLevel, parseLevel, serializeLevel } from './mazeLevel';
+import { MazeGenerator } from './mazeGenerator';
+import { createSeededRandom } from './random';
+
+function level() {
+  const layout = new MazeGenerator(11, 11, { random: createSeededRandom(4), floors: 2, checkpoints: 2 }).generateLayout();
+  return createLevel(layout, {
+    seed: 4,
+    algorithm: 'backtracker',
+    enemies: [],
+    environment: { timeOfDay: 'day', weather: 'sunny' }
+  });
+}
+
+describe('parseLevel', () => {
+  it('reads back a serialized level', () => {
+    const original = level();
+    expect(parseLevel(serializeLevel(original))).toEqual(original);
+  });
+
+  it('reports a blocked exit', () => {
+    const blocked = level();
+    blocked.floors[blocked.exit.floor][blocked.exit.y][blocked.exit.x] = CellType.Wall;
+    expect(() => parseLevel(blocked)).toThrow(/exit: .* is not an open cell/);
+  });
+
+  it('reports connections whose stairs are missing on either floor', () => {
+    const walled = level();
+    const [connection] = walled.connections;
+    walled.floors[connection.floor][connection.y][connection.x] = CellType.Wall;
+    expect(() => parseLevel(walled)).toThrow(/connections\.0: .* on floor 0 is not stairs up/);
+
+    const landing = level();
+    landing.floors[1][connection.y][connection.x] = CellType.Floor;
+    expect(() => parseLevel(landing)).toThrow(/connections\.0: .* on floor 1 is not stairs down/);
+  });
+
+  for (const floors of [[], [[]]]) {
+    it(`rejects floors ${JSON.stringify(floors)} as an invalid level`, () => {
+      expect(() => parseLevel({ ...level(), floors })).toThrow(/^Invalid level: floors/);
+    });
+  }
+});
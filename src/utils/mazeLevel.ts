@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import { MAZE_ALGORITHMS, MazeAlgorithmId } from './mazeAlgorithms';
+import { CellType, isWalkable, MazeGrid } from './mazeCells';
+import { FloorConnection, MazeLayout } from './mazeGenerator';
+import { GridPosition } from './mazePaths';
+
+// Bump when the level format changes incompatibly; parseLevel rejects levels
+// of any other version
+export const LEVEL_FORMAT_VERSION = 1;
+
+const algorithmIds = Object.keys(MAZE_ALGORITHMS) as [MazeAlgorithmId, ...MazeAlgorithmId[]];
+
+const positionSchema = z.object({
+  x: z.number().int().nonnegative(),
+  y: z.number().int().nonnegative(),
+  floor: z.number().int().nonnegative().optional()
+});
+
+const enemySchema = positionSchema.extend({
+  // Waypoints on the enemy's floor, walked in a loop after the spawn point;
+  // the game picks a patrol when there are none
+  patrol: z.array(positionSchema).optional()
+});
+
+// grid[y][x] holds a CellType
+const gridSchema = z.array(z.array(z.nativeEnum(CellType)).min(1)).min(1);
+
+const connectionSchema = z.object({
+  x: z.number().int().nonnegative(),
+  y: z.number().int().nonnegative(),
+  floor: z.number().int().nonnegative(),
+  kind: z.enum(['stairs', 'ramp', 'ladder'])
+});
+
+const environmentSchema = z.object({
+  timeOfDay: z.enum(['day', 'night', 'sunset', 'dawn']),
+  weather: z.enum(['sunny', 'cloudy', 'rainy', 'snowy'])
+});
+
+export const mazeLevelSchema = z
+  .object({
+    version: z.literal(LEVEL_FORMAT_VERSION),
+    // Seed the level was generated from; the grid is authoritative
+    seed: z.number().int().min(0).max(0xffffffff),
+    algorithm: z.enum(algorithmIds),
+    // Ground floor first; every floor has the same size
+    floors: z.array(gridSchema).min(1),
+    connections: z.array(connectionSchema).default([]),
+    start: positionSchema,
+    exit: positionSchema,
+    checkpoints: z.array(positionSchema).default([]),
+    // Where enemies start their patrols
+    enemies: z.array(enemySchema).default([]),
+    environment: environmentSchema
+  })
+  .superRefine((data, context) => {
+    const level = data as MazeLevel;
+    // Empty floors already failed the schema above
+    if (!level.floors[0]?.[0]) return;
+
+    const height = level.floors[0].length;
+    const width = level.floors[0][0].length;
+
+    level.floors.forEach((grid, floor) => {
+      if (grid.length !== height || grid.some(row => row.length !== width)) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ['floors', floor], message: `Floor ${floor} is not ${width}x${height}` });
+      }
+    });
+
+    // Everything the player has to reach, or where an enemy stands, must be open
+    const checkOpen = (position: GridPosition, path: (string | number)[]) => {
+      const grid = level.floors[position.floor ?? 0];
+      if (!grid || !isWalkable(grid[position.y]?.[position.x])) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path, message: `(${position.x}, ${position.y}) is not an open cell` });
+      }
+    };
+    checkOpen(level.start, ['start']);
+    checkOpen(level.exit, ['exit']);
+    level.checkpoints.forEach((checkpoint, index) => checkOpen(checkpoint, ['checkpoints', index]));
+    level.enemies.forEach((enemy, index) => {
+      checkOpen(enemy, ['enemies', index]);
+      enemy.patrol?.forEach((waypoint, step) => checkOpen({ ...waypoint, floor: enemy.floor }, ['enemies', index, 'patrol', step]));
+    });
+
+    // Connections climb from stairs up to the stairs down right above them
+    const checkStairs = (position: GridPosition, type: CellType, path: (string | number)[]) => {
+      if (level.floors[position.floor]?.[position.y]?.[position.x] !== type) {
+        const stairs = type === CellType.StairsUp ? 'stairs up' : 'stairs down';
+        context.addIssue({ code: z.ZodIssueCode.custom, path, message: `(${position.x}, ${position.y}) on floor ${position.floor} is not ${stairs}` });
+      }
+    };
+    level.connections.forEach((connection, index) => {
+      if (connection.floor + 1 >= level.floors.length) {
+        context.addIssue({ code: z.ZodIssueCode.custom, path: ['connections', index], message: 'Connection leads above the top floor' });
+        return;
+      }
+      checkStairs(connection, CellType.StairsUp, ['connections', index]);
+      checkStairs({ ...connection, floor: connection.floor + 1 }, CellType.StairsDown, ['connections', index]);
+    });
+  });
+
+// Spelled out rather than inferred from the schema: without strictNullChecks
+// zod infers every property as optional
+export interface LevelEnvironment {
+  timeOfDay: 'day' | 'night' | 'sunset' | 'dawn';
+  weather: 'sunny' | 'cloudy' | 'rainy' | 'snowy';
+}
+
+export interface LevelEnemy extends GridPosition {
+  patrol?: GridPosition[];
+}
+
+export interface MazeLevel {
+  version: typeof LEVEL_FORMAT_VERSION;
+  seed: number;
+  algorithm: MazeAlgorithmId;
+  floors: MazeGrid[];
+  connections: FloorConnection[];
+  start: GridPosition;
+  exit: GridPosition;
+  checkpoints: GridPosition[];
+  enemies: LevelEnemy[];
+  environment: LevelEnvironment;
+}
+
+export interface LevelDetails {
+  seed: number;
+  algorithm: MazeAlgorithmId;
+  enemies: LevelEnemy[];
+  environment: LevelEnvironment;
+}
+
+const copyGrid = (grid: MazeGrid): MazeGrid => grid.map(row => [...row]);
+
+// Snapshot of a generated layout; later changes to the layout (e.g. doors
+// being unlocked) don't leak into the level
+export function createLevel(layout: MazeLayout, details: LevelDetails): MazeLevel {
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    seed: details.seed,
+    algorithm: details.algorithm,
+    floors: layout.floors.map(copyGrid),
+    connections: layout.connections.map(connection => ({ ...connection })),
+    start: { ...layout.start },
+    exit: { ...layout.exit },
+    checkpoints: layout.checkpoints.map(checkpoint => ({ ...checkpoint })),
+    enemies: details.enemies.map(enemy => ({ ...enemy, patrol: enemy.patrol?.map(waypoint => ({ ...waypoint })) })),
+    environment: { ...details.environment }
+  };
+}
+
+export function levelToLayout(level: MazeLevel): MazeLayout {
+  const floors = level.floors.map(copyGrid);
+  return {
+    grid: floors[0],
+    floors,
+    connections: level.connections.map(connection => ({ ...connection })),
+    start: { ...level.start },
+    exit: { ...level.exit },
+    checkpoints: level.checkpoints.map(checkpoint => ({ ...checkpoint }))
+  };
+}
+
+export function serializeLevel(level: MazeLevel, pretty = false): string {
+  return JSON.stringify(level, null, pretty ? 2 : undefined);
+}
+
+// Validate a level given as JSON text or an already parsed value. Throws with
+// every problem found, e.g. "exit: (3, 4) is not an open cell".
+export function parseLevel(input: string | unknown): MazeLevel {
+  let data = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new Error('Level is not valid JSON');
+    }
+  }
+
+  const result = mazeLevelSchema.safeParse(data);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `${issue.path.join('.') || 'level'}: ${issue.message}`);
+    throw new Error(`Invalid level: ${problems.join('; ')}`);
+  }
+  return result.data as MazeLevel;
+}
+
+// Share codes are the level JSON, deflated and base64url encoded so they
+// survive being pasted into chats and URLs
+export async function encodeShareCode(level: MazeLevel): Promise<string> {
+  const bytes = await transform(new TextEncoder().encode(serializeLevel(level)), new CompressionStream('deflate'));
+  return toBase64Url(bytes);
+}
+
+export async function decodeShareCode(code: string): Promise<MazeLevel> {
+  let json: string;
+  try {
+    const bytes = await transform(fromBase64Url(code.trim()), new DecompressionStream('deflate'));
+    json = new TextDecoder().decode(bytes);
+  } catch {
+    throw new Error('Not a valid level code');
+  }
+  return parseLevel(json);
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked: String.fromCharCode(...bytes) overflows the stack on big levels
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): Uint8Array {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
@@ -0,0 +1,153 @@
+import { CellType, MazeGrid } from './mazeCells';
+import { GridPosition } from './mazePaths';
+import { WorldPoint } from './mazeTopology';
+import { TopologyMaze } from './topologyMaze';
+
+export interface MazeMapOptions {
+  // Drawn as a dashed line
+  solution?: GridPosition[] | null;
+  // Where the player actually went, one run of cells per segment (a new
+  // segment starts after a respawn or a change of floor)
+  route?: GridPosition[][];
+  // Pixels per grid cell
+  cellSize?: number;
+}
+
+// Printer-friendly colours: everything open stays white
+const CELL_COLORS: Partial<Record<CellType, string>> = {
+  [CellType.Wall]: '#222222',
+  [CellType.Spawn]: '#4caf50',
+  [CellType.Exit]: '#e53935',
+  [CellType.Checkpoint]: '#a5d6a7',
+  [CellType.Door]: '#8d6e63',
+  [CellType.LockedDoor]: '#fbc02d',
+  [CellType.Water]: '#90caf9',
+  [CellType.Pit]: '#616161',
+  [CellType.Trap]: '#ffb74d',
+  [CellType.StairsUp]: '#b39ddb',
+  [CellType.StairsDown]: '#d1c4e9',
+  [CellType.BridgeNS]: '#e0e0e0',
+  [CellType.BridgeEW]: '#e0e0e0'
+};
+
+const SOLUTION_STYLE = 'fill="none" stroke="#1e88e5" stroke-linecap="round" stroke-linejoin="round"';
+const ROUTE_STYLE = 'fill="none" stroke="#fb8c00" stroke-opacity="0.8" stroke-linecap="round" stroke-linejoin="round"';
+
+const DEFAULT_CELL_SIZE = 12;
+
+// Keeps the markup short; a thousandth of a cell is far below a printed pixel
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Square block maze: one square per grid cell
+export function renderMazeSvg(maze: MazeGrid, options: MazeMapOptions = {}): string {
+  const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+  const height = maze.length;
+  const width = Math.max(0, ...maze.map(row => row.length));
+
+  const cells: string[] = [];
+  maze.forEach((row, y) => row.forEach((cell, x) => {
+    const color = CELL_COLORS[cell];
+    if (color) cells.push(`<rect x="${x}" y="${y}" width="1" height="1" fill="${color}"/>`);
+  }));
+
+  const center = ({ x, y }: GridPosition): WorldPoint => ({ x: x + 0.5, z: y + 0.5 });
+  const body = [
+    `<g shape-rendering="crispEdges">${cells.join('')}</g>`,
+    ...overlays(options, center, 0.25)
+  ];
+
+  return svgDocument(width, height, cellSize, { x: 0, z: 0 }, body);
+}
+
+// Hex and circular mazes: thin walls between cells, start, exit and
+// checkpoints read from the layout grid
+export function renderTopologySvg(maze: TopologyMaze, grid: MazeGrid, options: MazeMapOptions = {}): string {
+  const { topology } = maze;
+  // Measure the world distance between neighbouring cells, so a cell comes
+  // out cellSize pixels wide whatever units the topology uses
+  const first = topology.cells()[0];
+  const neighbor = topology.neighbors(first)[0] ?? first;
+  const from = topology.center(first);
+  const to = topology.center(neighbor);
+  const cellWidth = Math.hypot(to.x - from.x, to.z - from.z) || 1;
+  const cellSize = (options.cellSize ?? DEFAULT_CELL_SIZE) / cellWidth;
+
+  const walls = maze.walls();
+  const points = walls.flat();
+  const minX = Math.min(...points.map(point => point.x));
+  const minZ = Math.min(...points.map(point => point.z));
+  const maxX = Math.max(...points.map(point => point.x));
+  const maxZ = Math.max(...points.map(point => point.z));
+
+  const marks: string[] = [];
+  grid.forEach((row, y) => row.forEach((cell, x) => {
+    const color = CELL_COLORS[cell];
+    if (!color || cell === CellType.Wall) return;
+    const { x: cx, z: cz } = topology.center({ x, y });
+    marks.push(`<circle cx="${round(cx)}" cy="${round(cz)}" r="${round(cellWidth * 0.3)}" fill="${color}"/>`);
+  }));
+
+  const lines = walls.map(([a, b]) =>
+    `<line x1="${round(a.x)}" y1="${round(a.z)}" x2="${round(b.x)}" y2="${round(b.z)}"/>`
+  );
+
+  const body = [
+    marks.join(''),
+    `<g stroke="#222222" stroke-width="${round(cellWidth * 0.12)}" stroke-linecap="round">${lines.join('')}</g>`,
+    ...overlays(options, cell => topology.center(cell), cellWidth * 0.25)
+  ];
+
+  return svgDocument(maxX - minX, maxZ - minZ, cellSize, { x: minX, z: minZ }, body);
+}
+
+// Rasterise a map at print resolution. Browser only: needs an <img> and a
+// canvas.
+export function svgToPng(svg: string, scale = 4): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Could not render the map'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render the map'))), 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render the map'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+function overlays(options: MazeMapOptions, center: (cell: GridPosition) => WorldPoint, strokeWidth: number): string[] {
+  const lines: string[] = [];
+  for (const segment of options.route ?? []) {
+    if (segment.length > 1) lines.push(polyline(segment.map(center), ROUTE_STYLE, strokeWidth * 1.5));
+  }
+  if (options.solution && options.solution.length > 1) {
+    const dashes = `stroke-dasharray="${round(strokeWidth * 2)} ${round(strokeWidth * 1.5)}"`;
+    lines.push(polyline(options.solution.map(center), `${SOLUTION_STYLE} ${dashes}`, strokeWidth));
+  }
+  return lines;
+}
+
+function polyline(points: WorldPoint[], style: string, strokeWidth: number): string {
+  const coordinates = points.map(point => `${round(point.x)},${round(point.z)}`).join(' ');
+  return `<polyline points="${coordinates}" ${style} stroke-width="${round(strokeWidth)}"/>`;
+}
+
+function svgDocument(width: number, height: number, scale: number, origin: WorldPoint, body: string[]): string {
+  // A small margin keeps the outer walls from touching the edge of the page
+  const margin = Math.max(width, height) * 0.02;
+  const [left, top, viewWidth, viewHeight] = [origin.x - margin, origin.z - margin, width + margin * 2, height + margin * 2].map(round);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(viewWidth * scale)}" height="${Math.round(viewHeight * scale)}" viewBox="${left} ${top} ${viewWidth} ${viewHeight}">`,
+    `<rect x="${left}" y="${top}" width="${viewWidth}" height="${viewHeight}" fill="#ffffff"/>`,
+    ...body,
+    '</svg>'
+  ].join('\n');
+}
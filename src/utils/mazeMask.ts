@@ -0,0 +1,181 @@
+// Shape a maze is carved into: mask[row][column] is true for cells inside the
+// shape. Masks may have any resolution; the generator resamples them to its
+// cell grid with fitMask.
+export type MazeMask = boolean[][];
+
+interface MaskCell {
+  x: number;
+  y: number;
+}
+
+const TEXT_OVERSAMPLING = 8;
+
+// Every character other than space and '.' is inside the shape, e.g.
+//
+//   .##.##.
+//   #######
+//   .#####.
+//   ..###..
+export function parseAsciiMask(template: string): MazeMask {
+  const lines = template.split('\n').filter(line => line.trim().length > 0);
+  const columns = Math.max(0, ...lines.map(line => line.length));
+
+  return lines.map(line =>
+    Array.from({ length: columns }, (_, column) => {
+      const char = line[column] ?? ' ';
+      return char !== ' ' && char !== '.';
+    })
+  );
+}
+
+// Nearest-neighbour resample to the given number of columns and rows
+export function fitMask(mask: MazeMask, columns: number, rows: number): MazeMask {
+  const sourceRows = mask.length;
+  const sourceColumns = mask[0]?.length ?? 0;
+
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: columns }, (_, column) => {
+      if (sourceRows === 0 || sourceColumns === 0) return false;
+      const sourceRow = Math.min(sourceRows - 1, Math.floor(((row + 0.5) / rows) * sourceRows));
+      const sourceColumn = Math.min(sourceColumns - 1, Math.floor(((column + 0.5) / columns) * sourceColumns));
+      return mask[sourceRow][sourceColumn] ?? false;
+    })
+  );
+}
+
+export function countMaskCells(mask: MazeMask): number {
+  return mask.reduce((total, row) => total + row.filter(Boolean).length, 0);
+}
+
+// Join the separate blobs of a mask (letters, islands of an image) with the
+// shortest runs of extra cells, so the maze carved into it is one piece
+export function connectMask(mask: MazeMask): MazeMask {
+  const connected = mask.map(row => [...row]);
+  const rows = connected.length;
+  const columns = connected[0]?.length ?? 0;
+  const directions = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
+  // Breadth-first search from the blob of the first cell; the first inside
+  // cell it meets beyond that blob ends a shortest bridge
+  const bridge = (): boolean => {
+    const y0 = connected.findIndex(row => row.includes(true));
+    if (y0 < 0) return false;
+    const origin = { x: connected[y0].indexOf(true), y: y0 };
+
+    const previous = connected.map(row => row.map((): MaskCell | null => null));
+    const frontier = [origin];
+    previous[origin.y][origin.x] = origin;
+
+    // Grow the first blob completely before stepping outside the shape
+    for (let head = 0; head < frontier.length; head++) {
+      for (const [dx, dy] of directions) {
+        const x = frontier[head].x + dx;
+        const y = frontier[head].y + dy;
+        if (connected[y]?.[x] && !previous[y][x]) {
+          previous[y][x] = frontier[head];
+          frontier.push({ x, y });
+        }
+      }
+    }
+
+    for (let head = 0; head < frontier.length; head++) {
+      for (const [dx, dy] of directions) {
+        const x = frontier[head].x + dx;
+        const y = frontier[head].y + dy;
+        if (x < 0 || x >= columns || y < 0 || y >= rows || previous[y][x]) continue;
+        previous[y][x] = frontier[head];
+
+        if (!connected[y][x]) {
+          frontier.push({ x, y });
+          continue;
+        }
+
+        // Another blob: fill in the cells walked outside the shape
+        for (let step = frontier[head]; !connected[step.y][step.x]; step = previous[step.y][step.x]) {
+          connected[step.y][step.x] = true;
+        }
+        return true;
+      }
+    }
+
+    return false;
+  };
+
+  while (bridge());
+  return connected;
+}
+
+// Silhouette of an image drawn at columns x rows. Images with transparency use
+// their opaque pixels; fully opaque images use their dark pixels.
+export function maskFromImage(image: CanvasImageSource, columns: number, rows: number): MazeMask {
+  const context = createMaskContext(columns, rows);
+  context.drawImage(image, 0, 0, columns, rows);
+  const { data } = context.getImageData(0, 0, columns, rows);
+
+  let transparent = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 128) {
+      transparent = true;
+      break;
+    }
+  }
+
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: columns }, (_, column) => {
+      const i = (row * columns + column) * 4;
+      if (transparent) return data[i + 3] >= 128;
+
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      return luminance < 128;
+    })
+  );
+}
+
+// Load a PNG (or any browser-readable image) and turn it into a mask
+export function loadImageMask(url: string, columns: number, rows: number): Promise<MazeMask> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(maskFromImage(image, columns, rows));
+    image.onerror = () => reject(new Error(`Could not load mask image ${url}`));
+    image.src = url;
+  });
+}
+
+// Text rendered in a heavy font. A bar along the baseline joins the letters so
+// the whole word ends up as one connected maze.
+export function maskFromText(text: string, columns: number, rows: number, font = 'Arial Black, Arial, sans-serif'): MazeMask {
+  // Draw at a higher resolution than the grid so small letters keep their shape
+  const width = columns * TEXT_OVERSAMPLING;
+  const height = rows * TEXT_OVERSAMPLING;
+  const context = createMaskContext(width, height);
+  const label = text.trim() || '?';
+
+  context.fillStyle = '#000';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+
+  // Largest font size that still fits the width
+  let fontSize = height * 0.8;
+  context.font = `900 ${fontSize}px ${font}`;
+  const measured = context.measureText(label).width;
+  if (measured > width * 0.95) {
+    fontSize *= (width * 0.95) / measured;
+    context.font = `900 ${fontSize}px ${font}`;
+  }
+  context.fillText(label, width / 2, height / 2);
+
+  if (label.length > 1) {
+    const textWidth = Math.min(width * 0.95, context.measureText(label).width);
+    const barHeight = Math.max(TEXT_OVERSAMPLING, fontSize * 0.12);
+    context.fillRect((width - textWidth) / 2, height / 2 + fontSize * 0.3, textWidth, barHeight);
+  }
+
+  return maskFromImage(context.canvas, columns, rows);
+}
+
+function createMaskContext(columns: number, rows: number): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = columns;
+  canvas.height = rows;
+  return canvas.getContext('2d', { willReadFrequently: true })!;
+}
@@ -0,0 +1,95 @@
+import { isBridge, isWalkable, MazeGrid } from './mazeCells';
+
+export interface GridPosition {
+  x: number;
+  y: number;
+  // Level in multi-floor mazes, 0 when omitted
+  floor?: number;
+}
+
+// North, East, South, West
+export const GRID_DIRECTIONS = [
+  { dx: 0, dy: -1 },
+  { dx: 1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: -1, dy: 0 }
+];
+
+// In bounds and walkable (floor, doors, water, spawn, exit, ...)
+export function isOpenCell(maze: MazeGrid, x: number, y: number): boolean {
+  return y >= 0 && y < maze.length && x >= 0 && x < maze[y].length && isWalkable(maze[y][x]);
+}
+
+// Open cells one step away. Weave crossings are passed straight through, so
+// the step lands on the far side of the bridge (or tunnel) instead of on it.
+export function gridNeighbors(maze: MazeGrid, x: number, y: number): GridPosition[] {
+  const neighbors: GridPosition[] = [];
+  for (const { dx, dy } of GRID_DIRECTIONS) {
+    let nx = x + dx;
+    let ny = y + dy;
+    if (isBridge(maze[ny]?.[nx])) {
+      nx += dx;
+      ny += dy;
+    }
+    if (isOpenCell(maze, nx, ny)) neighbors.push({ x: nx, y: ny });
+  }
+  return neighbors;
+}
+
+// Breadth-first flood fill; every reachable cell gets its step distance from
+// the start, unreachable and wall cells stay at -1
+export function floodFill(maze: MazeGrid, start: GridPosition): number[][] {
+  const distances = maze.map(row => row.map(() => -1));
+  if (!isOpenCell(maze, start.x, start.y)) return distances;
+
+  const queue: GridPosition[] = [start];
+  distances[start.y][start.x] = 0;
+
+  for (let head = 0; head < queue.length; head++) {
+    const { x, y } = queue[head];
+    for (const next of gridNeighbors(maze, x, y)) {
+      if (distances[next.y][next.x] === -1) {
+        distances[next.y][next.x] = distances[y][x] + 1;
+        queue.push(next);
+      }
+    }
+  }
+
+  return distances;
+}
+
+export function findFarthestCell(distances: number[][]): GridPosition | null {
+  let farthest: GridPosition | null = null;
+  let farthestDistance = -1;
+
+  for (let y = 0; y < distances.length; y++) {
+    for (let x = 0; x < distances[y].length; x++) {
+      if (distances[y][x] > farthestDistance) {
+        farthestDistance = distances[y][x];
+        farthest = { x, y };
+      }
+    }
+  }
+
+  return farthest;
+}
+
+// Reachable cell closest (straight-line) to the given target
+export function findNearestReachableCell(distances: number[][], target: GridPosition): GridPosition | null {
+  let nearest: GridPosition | null = null;
+  let nearestDistance = Infinity;
+
+  for (let y = 0; y < distances.length; y++) {
+    for (let x = 0; x < distances[y].length; x++) {
+      if (distances[y][x] < 0) continue;
+
+      const distance = Math.hypot(x - target.x, y - target.y);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = { x, y };
+      }
+    }
+  }
+
+  return nearest;
+}
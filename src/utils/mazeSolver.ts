@@ -0,0 +1,146 @@
+import { MazeGrid } from './mazeCells';
+import { gridNeighbors, GridPosition, isOpenCell } from './mazePaths';
+
+export type SolverAlgorithm = 'bfs' | 'astar';
+
+export class MazeSolver {
+  private maze: MazeGrid;
+
+  constructor(maze: MazeGrid) {
+    this.maze = maze;
+  }
+
+  // Shortest route from start to goal (both included), or null when there is none.
+  // The start may be a blocked cell, e.g. when the player brushes against a wall.
+  findPath(start: GridPosition, goal: GridPosition, algorithm: SolverAlgorithm = 'astar'): GridPosition[] | null {
+    if (!isOpenCell(this.maze, goal.x, goal.y)) return null;
+
+    return algorithm === 'bfs' ? this.breadthFirst(start, goal) : this.aStar(start, goal);
+  }
+
+  private breadthFirst(start: GridPosition, goal: GridPosition): GridPosition[] | null {
+    const cameFrom = new Map<number, number>();
+    const startKey = this.key(start);
+    const queue: GridPosition[] = [start];
+    cameFrom.set(startKey, -1);
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      if (current.x === goal.x && current.y === goal.y) {
+        return this.reconstruct(cameFrom, current);
+      }
+
+      for (const next of this.neighbors(current)) {
+        const nextKey = this.key(next);
+        if (!cameFrom.has(nextKey)) {
+          cameFrom.set(nextKey, this.key(current));
+          queue.push(next);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private aStar(start: GridPosition, goal: GridPosition): GridPosition[] | null {
+    const heuristic = (cell: GridPosition) => Math.abs(cell.x - goal.x) + Math.abs(cell.y - goal.y);
+    const cameFrom = new Map<number, number>();
+    const costs = new Map<number, number>();
+    const open = new MinHeap<GridPosition>();
+
+    cameFrom.set(this.key(start), -1);
+    costs.set(this.key(start), 0);
+    open.push(start, heuristic(start));
+
+    while (open.size > 0) {
+      const current = open.pop()!;
+      if (current.x === goal.x && current.y === goal.y) {
+        return this.reconstruct(cameFrom, current);
+      }
+
+      const currentCost = costs.get(this.key(current))!;
+      for (const next of this.neighbors(current)) {
+        const nextKey = this.key(next);
+        const cost = currentCost + 1;
+        if (cost < (costs.get(nextKey) ?? Infinity)) {
+          costs.set(nextKey, cost);
+          cameFrom.set(nextKey, this.key(current));
+          open.push(next, cost + heuristic(next));
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private neighbors(cell: GridPosition): GridPosition[] {
+    return gridNeighbors(this.maze, cell.x, cell.y);
+  }
+
+  private key(cell: GridPosition): number {
+    return cell.y * this.width + cell.x;
+  }
+
+  private get width(): number {
+    return this.maze[0]?.length ?? 0;
+  }
+
+  private reconstruct(cameFrom: Map<number, number>, end: GridPosition): GridPosition[] {
+    const path: GridPosition[] = [];
+    let key = this.key(end);
+
+    while (key !== -1) {
+      path.push({ x: key % this.width, y: Math.floor(key / this.width) });
+      key = cameFrom.get(key)!;
+    }
+
+    return path.reverse();
+  }
+}
+
+// Minimal binary heap keyed by priority, enough for A* on large grids
+class MinHeap<T> {
+  private items: { value: T; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(value: T, priority: number): void {
+    const items = this.items;
+    items.push({ value, priority });
+
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].priority <= items[index].priority) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+
+      let index = 0;
+      while (true) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+
+    return top.value;
+  }
+}
@@ -0,0 +1,394 @@
+import { GridPosition } from './mazePaths';
+
+export type TopologyId = 'square' | 'hex' | 'theta';
+
+// Ground-plane coordinates; the maze is centred on the origin
+export interface WorldPoint {
+  x: number;
+  z: number;
+}
+
+export type WallSegment = [WorldPoint, WorldPoint];
+
+// One stretch of a cell's outline and the cell on the other side of it (null
+// on the outer boundary). A neighbour can share several segments, e.g. the
+// arcs of circular mazes are drawn as chords.
+export interface CellEdge {
+  neighbor: GridPosition | null;
+  segments: WallSegment[];
+}
+
+// Shape of the cell lattice: how cells are laid out in the world and which
+// cells touch. Cells are addressed by two integers, (x, y) on the square grid,
+// (column, row) on the hex grid and (index, ring) on the circular grid.
+export interface MazeTopology {
+  readonly id: TopologyId;
+  // Extent of the ground the maze stands on
+  readonly width: number;
+  readonly depth: number;
+  cells(): GridPosition[];
+  contains(cell: GridPosition): boolean;
+  // Unique index of a cell, 0 <= key < cellCount
+  key(cell: GridPosition): number;
+  readonly cellCount: number;
+  center(cell: GridPosition): WorldPoint;
+  // Cell under a world position, clamped to the nearest cell outside the maze
+  cellAt(point: WorldPoint): GridPosition;
+  encloses(point: WorldPoint): boolean;
+  edges(cell: GridPosition): CellEdge[];
+  neighbors(cell: GridPosition): GridPosition[];
+}
+
+const samePosition = (a: GridPosition, b: GridPosition) => a.x === b.x && a.y === b.y;
+
+// Neighbours from the edge list, each listed once
+function neighborsFromEdges(edges: CellEdge[]): GridPosition[] {
+  const neighbors: GridPosition[] = [];
+  for (const { neighbor } of edges) {
+    if (neighbor && !neighbors.some(other => samePosition(other, neighbor))) neighbors.push(neighbor);
+  }
+  return neighbors;
+}
+
+// The block grid the game has always used: every grid position is a cell of
+// cellSize, walls are whole cells
+export class SquareTopology implements MazeTopology {
+  readonly id = 'square';
+  readonly width: number;
+  readonly depth: number;
+  readonly cellCount: number;
+  private columns: number;
+  private rows: number;
+  private cellSize: number;
+
+  constructor(columns: number, rows: number, cellSize: number) {
+    this.columns = columns;
+    this.rows = rows;
+    this.cellSize = cellSize;
+    this.width = columns * cellSize;
+    this.depth = rows * cellSize;
+    this.cellCount = columns * rows;
+  }
+
+  cells(): GridPosition[] {
+    const cells: GridPosition[] = [];
+    for (let y = 0; y < this.rows; y++) {
+      for (let x = 0; x < this.columns; x++) cells.push({ x, y });
+    }
+    return cells;
+  }
+
+  contains(cell: GridPosition): boolean {
+    return cell.x >= 0 && cell.x < this.columns && cell.y >= 0 && cell.y < this.rows;
+  }
+
+  key(cell: GridPosition): number {
+    return cell.y * this.columns + cell.x;
+  }
+
+  center(cell: GridPosition): WorldPoint {
+    return {
+      x: (cell.x - this.columns / 2) * this.cellSize,
+      z: (cell.y - this.rows / 2) * this.cellSize
+    };
+  }
+
+  // Unclamped, like the original Math.round conversion
+  cellAt(point: WorldPoint): GridPosition {
+    return {
+      x: Math.round((point.x + this.width / 2) / this.cellSize),
+      y: Math.round((point.z + this.depth / 2) / this.cellSize)
+    };
+  }
+
+  encloses(point: WorldPoint): boolean {
+    return this.contains(this.cellAt(point));
+  }
+
+  edges(cell: GridPosition): CellEdge[] {
+    const { x, z } = this.center(cell);
+    const half = this.cellSize / 2;
+    const corners = [
+      { x: x - half, z: z - half },
+      { x: x + half, z: z - half },
+      { x: x + half, z: z + half },
+      { x: x - half, z: z + half }
+    ];
+    const across = [
+      { x: cell.x, y: cell.y - 1 },
+      { x: cell.x + 1, y: cell.y },
+      { x: cell.x, y: cell.y + 1 },
+      { x: cell.x - 1, y: cell.y }
+    ];
+
+    return across.map((neighbor, i) => ({
+      neighbor: this.contains(neighbor) ? neighbor : null,
+      segments: [[corners[i], corners[(i + 1) % 4]]]
+    }));
+  }
+
+  neighbors(cell: GridPosition): GridPosition[] {
+    return neighborsFromEdges(this.edges(cell));
+  }
+}
+
+// Pointy-top hexagons in offset rows: odd rows are shifted half a cell east.
+// radius is the distance from a hexagon's centre to its corners.
+export class HexTopology implements MazeTopology {
+  readonly id = 'hex';
+  readonly width: number;
+  readonly depth: number;
+  readonly cellCount: number;
+  private columns: number;
+  private rows: number;
+  private radius: number;
+
+  constructor(columns: number, rows: number, radius: number) {
+    this.columns = columns;
+    this.rows = rows;
+    this.radius = radius;
+    this.width = (columns + 0.5) * this.columnSpacing;
+    this.depth = (rows - 1) * this.rowSpacing + radius * 2;
+    this.cellCount = columns * rows;
+  }
+
+  private get columnSpacing(): number {
+    return Math.sqrt(3) * this.radius;
+  }
+
+  private get rowSpacing(): number {
+    return 1.5 * this.radius;
+  }
+
+  cells(): GridPosition[] {
+    const cells: GridPosition[] = [];
+    for (let y = 0; y < this.rows; y++) {
+      for (let x = 0; x < this.columns; x++) cells.push({ x, y });
+    }
+    return cells;
+  }
+
+  contains(cell: GridPosition): boolean {
+    return cell.x >= 0 && cell.x < this.columns && cell.y >= 0 && cell.y < this.rows;
+  }
+
+  key(cell: GridPosition): number {
+    return cell.y * this.columns + cell.x;
+  }
+
+  center(cell: GridPosition): WorldPoint {
+    return {
+      x: (cell.x + (Math.abs(cell.y % 2) === 1 ? 0.5 : 0)) * this.columnSpacing - (this.width - this.columnSpacing) / 2,
+      z: cell.y * this.rowSpacing - ((this.rows - 1) * this.rowSpacing) / 2
+    };
+  }
+
+  cellAt(point: WorldPoint): GridPosition {
+    const cell = this.nearestCell(point);
+    return {
+      x: Math.min(this.columns - 1, Math.max(0, cell.x)),
+      y: Math.min(this.rows - 1, Math.max(0, cell.y))
+    };
+  }
+
+  encloses(point: WorldPoint): boolean {
+    return this.contains(this.nearestCell(point));
+  }
+
+  // Hexagons are the Voronoi cells of their centres, so the nearest centre
+  // wins; may lie outside the grid
+  private nearestCell(point: WorldPoint): GridPosition {
+    const row = Math.round((point.z + ((this.rows - 1) * this.rowSpacing) / 2) / this.rowSpacing);
+    let best: GridPosition = { x: 0, y: 0 };
+    let bestDistance = Infinity;
+
+    for (let y = row - 1; y <= row + 1; y++) {
+      const offset = Math.abs(y % 2) === 1 ? 0.5 : 0;
+      const column = Math.round((point.x + (this.width - this.columnSpacing) / 2) / this.columnSpacing - offset);
+
+      for (let x = column - 1; x <= column + 1; x++) {
+        const center = this.center({ x, y });
+        const distance = Math.hypot(point.x - center.x, point.z - center.z);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = { x, y };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  edges(cell: GridPosition): CellEdge[] {
+    const center = this.center(cell);
+    const corners = Array.from({ length: 6 }, (_, i) => {
+      const angle = Math.PI / 6 + (Math.PI / 3) * i;
+      return { x: center.x + this.radius * Math.cos(angle), z: center.z + this.radius * Math.sin(angle) };
+    });
+
+    return corners.map((corner, i) => {
+      const next = corners[(i + 1) % 6];
+      // The neighbour's centre is the mirror image of ours across the edge
+      const across = {
+        x: corner.x + next.x - center.x,
+        z: corner.z + next.z - center.z
+      };
+      const neighbor = this.nearestCell(across);
+
+      return { neighbor: this.contains(neighbor) ? neighbor : null, segments: [[corner, next]] as WallSegment[] };
+    });
+  }
+
+  neighbors(cell: GridPosition): GridPosition[] {
+    return neighborsFromEdges(this.edges(cell));
+  }
+}
+
+// Concentric rings around a single centre cell. Rings are subdivided further
+// as they grow, keeping cells roughly square. Cells are (index, ring).
+export class ThetaTopology implements MazeTopology {
+  readonly id = 'theta';
+  readonly width: number;
+  readonly depth: number;
+  readonly cellCount: number;
+  private ringCounts: number[] = [];
+  private ringOffsets: number[] = [];
+  private ringHeight: number;
+
+  constructor(rings: number, ringHeight: number) {
+    this.ringHeight = ringHeight;
+    this.width = rings * ringHeight * 2;
+    this.depth = this.width;
+
+    let total = 0;
+    for (let ring = 0; ring < rings; ring++) {
+      let count = 1;
+      if (ring > 0) {
+        const previous = this.ringCounts[ring - 1];
+        const cellWidth = (2 * Math.PI * ring) / previous;
+        count = previous * Math.max(1, Math.round(cellWidth));
+      }
+      this.ringCounts.push(count);
+      this.ringOffsets.push(total);
+      total += count;
+    }
+    this.cellCount = total;
+  }
+
+  private get rings(): number {
+    return this.ringCounts.length;
+  }
+
+  cells(): GridPosition[] {
+    const cells: GridPosition[] = [];
+    this.ringCounts.forEach((count, ring) => {
+      for (let index = 0; index < count; index++) cells.push({ x: index, y: ring });
+    });
+    return cells;
+  }
+
+  contains(cell: GridPosition): boolean {
+    return cell.y >= 0 && cell.y < this.rings && cell.x >= 0 && cell.x < this.ringCounts[cell.y];
+  }
+
+  key(cell: GridPosition): number {
+    return this.ringOffsets[cell.y] + cell.x;
+  }
+
+  center(cell: GridPosition): WorldPoint {
+    if (cell.y === 0) return { x: 0, z: 0 };
+
+    const angle = ((cell.x + 0.5) / this.ringCounts[cell.y]) * Math.PI * 2;
+    const distance = (cell.y + 0.5) * this.ringHeight;
+    return { x: distance * Math.cos(angle), z: distance * Math.sin(angle) };
+  }
+
+  cellAt(point: WorldPoint): GridPosition {
+    const ring = Math.min(this.rings - 1, Math.floor(Math.hypot(point.x, point.z) / this.ringHeight));
+    const angle = (Math.atan2(point.z, point.x) + Math.PI * 2) % (Math.PI * 2);
+    const count = this.ringCounts[ring];
+    return { x: Math.min(count - 1, Math.floor((angle / (Math.PI * 2)) * count)), y: ring };
+  }
+
+  encloses(point: WorldPoint): boolean {
+    return Math.hypot(point.x, point.z) < this.rings * this.ringHeight;
+  }
+
+  edges(cell: GridPosition): CellEdge[] {
+    const { x: index, y: ring } = cell;
+    const count = this.ringCounts[ring];
+    const inner = ring * this.ringHeight;
+    const outer = (ring + 1) * this.ringHeight;
+    const start = (index / count) * Math.PI * 2;
+    const end = ((index + 1) / count) * Math.PI * 2;
+    const edges: CellEdge[] = [];
+
+    if (ring > 0) {
+      const innerCount = this.ringCounts[ring - 1];
+      edges.push({
+        neighbor: { x: Math.floor((index * innerCount) / count), y: ring - 1 },
+        segments: this.arc(inner, start, end)
+      });
+
+      if (count > 1) {
+        edges.push({
+          neighbor: { x: (index - 1 + count) % count, y: ring },
+          segments: [[this.polar(inner, start), this.polar(outer, start)]]
+        });
+        edges.push({
+          neighbor: { x: (index + 1) % count, y: ring },
+          segments: [[this.polar(inner, end), this.polar(outer, end)]]
+        });
+      }
+    }
+
+    // The outer arc is split between the cells of the next ring
+    if (ring + 1 < this.rings) {
+      const ratio = this.ringCounts[ring + 1] / count;
+      for (let i = 0; i < ratio; i++) {
+        const from = start + ((end - start) * i) / ratio;
+        const to = start + ((end - start) * (i + 1)) / ratio;
+        edges.push({ neighbor: { x: index * ratio + i, y: ring + 1 }, segments: this.arc(outer, from, to) });
+      }
+    } else {
+      edges.push({ neighbor: null, segments: this.arc(outer, start, end) });
+    }
+
+    return edges;
+  }
+
+  neighbors(cell: GridPosition): GridPosition[] {
+    return neighborsFromEdges(this.edges(cell));
+  }
+
+  private polar(distance: number, angle: number): WorldPoint {
+    return { x: distance * Math.cos(angle), z: distance * Math.sin(angle) };
+  }
+
+  // Arc drawn as chords no longer than a ring is high
+  private arc(distance: number, from: number, to: number): WallSegment[] {
+    const pieces = Math.max(1, Math.ceil((distance * (to - from)) / this.ringHeight));
+    const segments: WallSegment[] = [];
+    for (let i = 0; i < pieces; i++) {
+      segments.push([
+        this.polar(distance, from + ((to - from) * i) / pieces),
+        this.polar(distance, from + ((to - from) * (i + 1)) / pieces)
+      ]);
+    }
+    return segments;
+  }
+}
+
+// cellSize is the distance between neighbouring cell centres. The square and
+// hex grids get columns x rows cells; circular mazes get about as many cells
+// spread over concentric rings.
+export function createTopology(id: TopologyId, columns: number, rows: number, cellSize: number): MazeTopology {
+  switch (id) {
+    case 'hex':
+      return new HexTopology(columns, rows, cellSize / Math.sqrt(3));
+    case 'theta':
+      return new ThetaTopology(Math.max(2, Math.round(Math.min(columns, rows) / Math.sqrt(Math.PI))), cellSize);
+    default:
+      return new SquareTopology(columns, rows, cellSize);
+  }
+}
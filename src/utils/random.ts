@@ -0,0 +1,46 @@
+// Source of uniformly distributed numbers in [0, 1), compatible with Math.random
+export type RandomSource = () => number;
+
+// Mulberry32: tiny, fast and good enough for level generation
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// FNV-1a hash so that text seeds like "friday-race" map to a stable number
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Parse a seed from user input (e.g. the ?seed= URL parameter)
+export function parseSeed(value: string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+
+  if (/^\d+$/.test(trimmed)) {
+    const numeric = Number(trimmed);
+    if (Number.isSafeInteger(numeric) && numeric < 4294967296) {
+      return numeric;
+    }
+  }
+
+  return hashSeed(trimmed);
+}
@@ -0,0 +1,52 @@
+import * as THREE from 'three';
+
+interface Disposable {
+  dispose: () => void;
+}
+
+// GPU resources of one game session: geometries, materials, their textures,
+// instance buffers and shadow maps, freed together when the session ends.
+// Meshes may share geometry and materials, so everything is collected before
+// anything is disposed.
+export class ResourceRegistry {
+  private resources = new Set<Disposable>();
+
+  track<T extends Disposable>(resource: T): T {
+    this.resources.add(resource);
+    return resource;
+  }
+
+  // Track the resources of object and everything under it
+  trackObject<T extends THREE.Object3D>(object: T): T {
+    object.traverse(child => {
+      if (child instanceof THREE.InstancedMesh) this.track(child);
+      if (child instanceof THREE.Light && child.shadow) this.track(child.shadow);
+      if (child instanceof THREE.Mesh || child instanceof THREE.Line || child instanceof THREE.Points) {
+        this.track(child.geometry);
+        const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach(material => {
+          // Shared materials belong to a MaterialCache, which disposes them
+          if (material.userData.shared) return;
+          this.track(material);
+          Object.values(material).forEach(value => {
+            if (value instanceof THREE.Texture) this.track(value as THREE.Texture);
+          });
+        });
+      }
+    });
+    return object;
+  }
+
+  dispose() {
+    this.resources.forEach(resource => resource.dispose());
+    this.resources.clear();
+  }
+}
+
+// Free the resources of an object taken out of the scene mid-session, such
+// as an unloaded chunk or an expired hint
+export function disposeObject(object: THREE.Object3D) {
+  const registry = new ResourceRegistry();
+  registry.trackObject(object);
+  registry.dispose();
+}
@@ -0,0 +1,62 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+
+export type SceneExportFormat = 'glb' | 'obj';
+
+// Named groups of meshes to export, e.g. { walls: [...], checkpoints: [...] }
+export type ExportParts = Record<string, THREE.Object3D[]>;
+
+// One plain mesh per instance: OBJ has no instancing, and not every glTF
+// viewer supports EXT_mesh_gpu_instancing
+function expandInstances(object: THREE.InstancedMesh): THREE.Mesh[] {
+  const matrix = new THREE.Matrix4();
+  return Array.from({ length: object.count }, (_, index) => {
+    const mesh = new THREE.Mesh(object.geometry, object.material);
+    object.getMatrixAt(index, matrix);
+    matrix.premultiply(object.matrixWorld).decompose(mesh.position, mesh.quaternion, mesh.scale);
+    return mesh;
+  });
+}
+
+// Copy the given objects into a scene of their own, one group per part, so
+// the exporters skip lights, enemies, weather and the like. The copies share
+// geometry and materials with the originals; each copy takes its original's
+// world transform, so the parent groups (e.g. endless-maze chunks) are dropped.
+export function buildExportScene(parts: ExportParts): THREE.Scene {
+  const scene = new THREE.Scene();
+  scene.name = 'maze';
+
+  Object.entries(parts).forEach(([name, objects]) => {
+    const group = new THREE.Group();
+    group.name = name;
+
+    const copies = objects.flatMap(object => {
+      object.updateWorldMatrix(true, false);
+      if (object instanceof THREE.InstancedMesh) return expandInstances(object);
+      const copy = object.clone(false);
+      object.matrixWorld.decompose(copy.position, copy.quaternion, copy.scale);
+      return [copy];
+    });
+    copies.forEach((copy, index) => {
+      copy.name = copies.length > 1 ? `${name}_${index}` : name;
+      group.add(copy);
+    });
+
+    scene.add(group);
+  });
+
+  return scene;
+}
+
+// Binary glTF: one self-contained file, textures included
+export function exportGltf(scene: THREE.Scene): Promise<Blob> {
+  return new GLTFExporter()
+    .parseAsync(scene, { binary: true })
+    .then((result: ArrayBuffer) => new Blob([result], { type: 'model/gltf-binary' }));
+}
+
+// Geometry only; OBJ has no room for the generated textures
+export function exportObj(scene: THREE.Scene): Blob {
+  return new Blob([new OBJExporter().parse(scene)], { type: 'model/obj' });
+}
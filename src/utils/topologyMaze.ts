@@ -0,0 +1,275 @@
+import { MazeAlgorithmId, shuffle } from './mazeAlgorithms';
+import { CellType, MazeGrid } from './mazeCells';
+import { ExitPlacement, MazeLayout } from './mazeGenerator';
+import { GridPosition } from './mazePaths';
+import { MazeTopology, WallSegment, WorldPoint } from './mazeTopology';
+import { RandomSource } from './random';
+
+export interface TopologyLayoutOptions {
+  random?: RandomSource;
+  algorithm?: MazeAlgorithmId;
+  // 'corner' is the cell farthest from the start in a straight line
+  exitPlacement?: ExitPlacement;
+  braid?: number;
+  checkpoints?: number;
+}
+
+const CHECKPOINT_START_STEPS = 4;
+const CHECKPOINT_SPACING_STEPS = 3;
+
+// Passages carved between the cells of any topology. Walls are the edges
+// between unlinked neighbours plus the outer boundary, so the hex and circular
+// mazes have thin walls instead of the block walls of the square grid.
+export class TopologyMaze {
+  readonly topology: MazeTopology;
+  private links: Set<number>[];
+  private wallCache: WallSegment[] | null = null;
+
+  constructor(topology: MazeTopology) {
+    this.topology = topology;
+    this.links = Array.from({ length: topology.cellCount }, () => new Set<number>());
+  }
+
+  isLinked(a: GridPosition, b: GridPosition): boolean {
+    return this.links[this.topology.key(a)].has(this.topology.key(b));
+  }
+
+  link(a: GridPosition, b: GridPosition): void {
+    this.links[this.topology.key(a)].add(this.topology.key(b));
+    this.links[this.topology.key(b)].add(this.topology.key(a));
+    this.wallCache = null;
+  }
+
+  linkedNeighbors(cell: GridPosition): GridPosition[] {
+    return this.topology.neighbors(cell).filter(neighbor => this.isLinked(cell, neighbor));
+  }
+
+  // Growing tree over the cell graph. The row-based square algorithms don't
+  // carry over to other topologies, so each algorithm maps to the cell
+  // selection that gives the closest texture: newest cell (backtracker),
+  // random cell (Prim-like) or a mix of both.
+  carve(random: RandomSource, algorithm: MazeAlgorithmId = 'backtracker'): void {
+    const cells = this.topology.cells();
+    if (cells.length === 0) return;
+
+    const visited = new Set<number>();
+    const start = cells[Math.floor(random() * cells.length)];
+    const active = [start];
+    visited.add(this.topology.key(start));
+
+    const chooseIndex = (): number => {
+      switch (algorithm) {
+        case 'prim':
+        case 'kruskal':
+        case 'wilson':
+          return Math.floor(random() * active.length);
+        case 'growing-tree':
+          return random() < 0.5 ? active.length - 1 : Math.floor(random() * active.length);
+        default:
+          return active.length - 1;
+      }
+    };
+
+    while (active.length > 0) {
+      const index = chooseIndex();
+      const cell = active[index];
+      const unvisited = this.topology.neighbors(cell).filter(neighbor => !visited.has(this.topology.key(neighbor)));
+
+      if (unvisited.length > 0) {
+        const next = unvisited[Math.floor(random() * unvisited.length)];
+        this.link(cell, next);
+        visited.add(this.topology.key(next));
+        active.push(next);
+      } else {
+        active.splice(index, 1);
+      }
+    }
+  }
+
+  // Join a share (0..1) of the dead ends to a neighbour, creating loops
+  braid(ratio: number, random: RandomSource): void {
+    const deadEnds = this.topology.cells().filter(cell => this.linkedNeighbors(cell).length === 1);
+
+    for (const cell of shuffle(deadEnds, random)) {
+      if (this.linkedNeighbors(cell).length !== 1 || random() >= ratio) continue;
+
+      const candidates = this.topology.neighbors(cell).filter(neighbor => !this.isLinked(cell, neighbor));
+      if (candidates.length === 0) continue;
+
+      const deadEndCandidates = candidates.filter(neighbor => this.linkedNeighbors(neighbor).length === 1);
+      const pool = deadEndCandidates.length > 0 ? deadEndCandidates : candidates;
+      this.link(cell, pool[Math.floor(random() * pool.length)]);
+    }
+  }
+
+  // Step distance from the start to every cell, -1 when unreachable
+  distancesFrom(start: GridPosition): Map<number, number> {
+    const distances = new Map<number, number>([[this.topology.key(start), 0]]);
+    const queue = [start];
+
+    for (let head = 0; head < queue.length; head++) {
+      const cell = queue[head];
+      const distance = distances.get(this.topology.key(cell))!;
+      for (const next of this.linkedNeighbors(cell)) {
+        if (!distances.has(this.topology.key(next))) {
+          distances.set(this.topology.key(next), distance + 1);
+          queue.push(next);
+        }
+      }
+    }
+
+    return distances;
+  }
+
+  findFarthestCell(start: GridPosition): GridPosition {
+    const distances = this.distancesFrom(start);
+    let farthest = start;
+    let farthestDistance = 0;
+
+    for (const cell of this.topology.cells()) {
+      const distance = distances.get(this.topology.key(cell)) ?? -1;
+      if (distance > farthestDistance) {
+        farthest = cell;
+        farthestDistance = distance;
+      }
+    }
+
+    return farthest;
+  }
+
+  // Shortest route along the passages (both ends included), or null
+  findPath(start: GridPosition, goal: GridPosition): GridPosition[] | null {
+    const cameFrom = new Map<number, GridPosition | null>([[this.topology.key(start), null]]);
+    const queue = [start];
+
+    for (let head = 0; head < queue.length; head++) {
+      const cell = queue[head];
+      if (cell.x === goal.x && cell.y === goal.y) {
+        const path: GridPosition[] = [];
+        for (let step: GridPosition | null = cell; step; step = cameFrom.get(this.topology.key(step)) ?? null) {
+          path.push(step);
+        }
+        return path.reverse();
+      }
+
+      for (const next of this.linkedNeighbors(cell)) {
+        if (!cameFrom.has(this.topology.key(next))) {
+          cameFrom.set(this.topology.key(next), cell);
+          queue.push(next);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // Every wall segment, shared walls listed once
+  walls(): WallSegment[] {
+    if (this.wallCache) return this.wallCache;
+
+    const walls: WallSegment[] = [];
+    for (const cell of this.topology.cells()) {
+      for (const { neighbor, segments } of this.topology.edges(cell)) {
+        if (!neighbor) {
+          walls.push(...segments);
+        } else if (!this.isLinked(cell, neighbor) && this.topology.key(cell) < this.topology.key(neighbor)) {
+          walls.push(...segments);
+        }
+      }
+    }
+
+    this.wallCache = walls;
+    return walls;
+  }
+
+  // A circle of the given radius overlaps a wall or leaves the maze. Only the
+  // walls around the cell under the point can be that close.
+  collides(point: WorldPoint, radius: number): boolean {
+    if (!this.topology.encloses(point)) return true;
+
+    const cell = this.topology.cellAt(point);
+    const nearby = [cell, ...this.topology.neighbors(cell)];
+
+    return nearby.some(near =>
+      this.topology.edges(near).some(({ neighbor, segments }) =>
+        (!neighbor || !this.isLinked(near, neighbor)) &&
+        segments.some(segment => distanceToSegment(point, segment) < radius)
+      )
+    );
+  }
+}
+
+function distanceToSegment(point: WorldPoint, [a, b]: WallSegment): number {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const lengthSquared = dx * dx + dz * dz;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.z - a.z) * dz) / lengthSquared));
+
+  return Math.hypot(point.x - (a.x + t * dx), point.z - (a.z + t * dz));
+}
+
+// Carve a maze on any topology and describe it like the square generator does.
+// The grid holds one entry per cell, grid[y][x] (rows of circular mazes differ
+// in length), so cell lookups such as hazards and movement speed keep working;
+// walls live in the returned TopologyMaze instead.
+export function generateTopologyLayout(
+  topology: MazeTopology,
+  options: TopologyLayoutOptions = {}
+): { maze: TopologyMaze; layout: MazeLayout } {
+  const random = options.random ?? Math.random;
+  const maze = new TopologyMaze(topology);
+  maze.carve(random, options.algorithm);
+  maze.braid(Math.min(1, Math.max(0, options.braid ?? 0)), random);
+
+  const cells = topology.cells();
+  const start = cells[0];
+  const exit = options.exitPlacement === 'farthest' ? maze.findFarthestCell(start) : farthestInLine(topology, start);
+
+  const grid: MazeGrid = [];
+  for (const cell of cells) {
+    if (!grid[cell.y]) grid[cell.y] = [];
+    grid[cell.y][cell.x] = CellType.Floor;
+  }
+
+  // Spread checkpoints out along the passages
+  const fromStart = maze.distancesFrom(start);
+  const checkpoints: GridPosition[] = [];
+  const spacing: Map<number, number>[] = [];
+  for (const cell of shuffle(cells, random)) {
+    if (checkpoints.length >= (options.checkpoints ?? 0)) break;
+    if ((fromStart.get(topology.key(cell)) ?? 0) < CHECKPOINT_START_STEPS) continue;
+    if (cell.x === exit.x && cell.y === exit.y) continue;
+    if (spacing.some(distances => (distances.get(topology.key(cell)) ?? 0) < CHECKPOINT_SPACING_STEPS)) continue;
+
+    checkpoints.push(cell);
+    spacing.push(maze.distancesFrom(cell));
+    grid[cell.y][cell.x] = CellType.Checkpoint;
+  }
+
+  grid[start.y][start.x] = CellType.Spawn;
+  grid[exit.y][exit.x] = CellType.Exit;
+
+  return {
+    maze,
+    layout: { grid, floors: [grid], connections: [], start, exit: { ...exit, floor: 0 }, checkpoints }
+  };
+}
+
+function farthestInLine(topology: MazeTopology, start: GridPosition): GridPosition {
+  const origin = topology.center(start);
+  let farthest = start;
+  let farthestDistance = 0;
+
+  for (const cell of topology.cells()) {
+    const { x, z } = topology.center(cell);
+    const distance = Math.hypot(x - origin.x, z - origin.z);
+    if (distance > farthestDistance) {
+      farthest = cell;
+      farthestDistance = distance;
+    }
+  }
+
+  return farthest;
+}